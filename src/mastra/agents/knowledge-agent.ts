@@ -8,12 +8,50 @@
 import { Agent } from '@mastra/core/agent';
 import { openai } from '@ai-sdk/openai';
 import {
-  searchDocumentsTool,
-  addDocumentTool,
+  createSearchDocumentsTool,
+  createAddDocumentTool,
+  updateDocumentTool,
+  deleteDocumentTool,
+  deleteIndexTool,
   listIndexesTool,
   getIndexStatsTool,
-  searchWithFiltersTool,
 } from '../tools/vector-store-tools';
+import { categorizationInstructions, describeCategories, knowledgeCategoryNames } from '../rag/categories';
+import { duplicateInstructions } from '../rag/duplicates';
+import { contextBudgetFor } from '../rag/packing';
+import { parseQueryRewriteStrategy } from '../rag/query-rewriting';
+import { createReranker } from '../rag/reranking';
+import { knowledgeAgentScorers } from '../scorers/knowledge-scorers';
+import { citationInstructions } from '../rag/citations';
+
+// Categories this agent is allowed to search (also listed in its instructions)
+const searchCategories = knowledgeCategoryNames;
+
+// Reranker applied to search candidates: none | keyword | llm | azure-semantic
+const reranker = createReranker(process.env.KNOWLEDGE_AGENT_RERANKER);
+
+// Query rewrite strategy when a search does not ask for one: none | standalone | multi-query | hyde
+const rewrite = parseQueryRewriteStrategy(process.env.KNOWLEDGE_AGENT_QUERY_REWRITE);
+
+const model = openai('gpt-4o');
+
+// Token budget of search results: KNOWLEDGE_AGENT_CONTEXT_BUDGET, or a share of the model's context window
+const contextBudget = contextBudgetFor(model.modelId, process.env.KNOWLEDGE_AGENT_CONTEXT_BUDGET);
+
+// Destructive tools are only registered when write access is enabled, and
+// addDocument only replaces or merges into duplicates with it;
+// deleting whole indexes needs a second opt-in on top of that
+const writeAccess = process.env.KNOWLEDGE_AGENT_WRITE_ACCESS === 'true';
+const allowDeleteIndex = writeAccess && process.env.KNOWLEDGE_AGENT_ALLOW_DELETE_INDEX === 'true';
+
+const writeInstructions = writeAccess
+  ? `
+Maintaining the knowledge base:
+- Use the update tool to fix a document and the delete tool to remove it, identifying it by ID (or exact title)
+- If several documents share a title, show the candidates and ask the user which one they mean
+- Before deleting anything, describe what will be deleted and wait for the user's explicit confirmation; only then call the tool with confirm: true
+`
+  : '';
 
 export const knowledgeAgent = new Agent({
   id: 'knowledge-agent',
@@ -27,28 +65,36 @@ Your purpose is to help users to:
 4. Provide accurate answers based on the retrieved documents
 
 IMPORTANT:
-- When you need information, use the semantic search tool
+- When you need information, use the search tool
+- When the question clearly belongs to a category, tag or time period, add a metadata filter to the search (e.g. { category: "science" })
+- Search with format "full" to answer from the passages, "snippet" to skim many results, or "ids" to list documents
+- For follow-up questions that depend on earlier turns ("what about the quantum one?"), search with rewrite "standalone" or "multi-query" (or "hyde" for vague questions) and pass the recent turns as conversation
+- Search results fit a token budget; when the packing report lists a truncated or dropped document you need, search for it again with a filter or fewer results
 - Always cite the source of information (document title)
 - If you don't find relevant information, say it clearly
 - You may suggest related searches
-- When adding documents, make sure to categorize them properly
 
-Available categories:
-- technology: Articles about technology, programming, AI, etc.
-- science: Scientific research, discoveries
-- business: Business strategy, finance, marketing
-- health: Medicine, wellness, nutrition
-- education: Pedagogy, learning, courses
+Available categories (searches are limited to these):
+${describeCategories(searchCategories)}
 
+${categorizationInstructions}
+${duplicateInstructions(writeAccess)}
+
+${citationInstructions}
+${writeInstructions}
 Be conversational, helpful, and precise in your responses.`,
   
-  model: openai('gpt-4o'),
+  model,
   
   tools: {
-    searchDocuments: searchDocumentsTool,
-    addDocument: addDocumentTool,
+    searchDocuments: createSearchDocumentsTool({ categories: searchCategories, reranker, rewrite, contextBudget }),
+    addDocument: createAddDocumentTool({ writeAccess }),
     listIndexes: listIndexesTool,
     getIndexStats: getIndexStatsTool,
-    searchWithFilters: searchWithFiltersTool,
+    ...(writeAccess ? { updateDocument: updateDocumentTool, deleteDocument: deleteDocumentTool } : {}),
+    ...(allowDeleteIndex ? { deleteIndex: deleteIndexTool } : {}),
   },
+
+  // Citation, groundedness and no-results checks on a sample of the answers
+  scorers: knowledgeAgentScorers(),
 });
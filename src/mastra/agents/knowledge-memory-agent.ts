@@ -3,36 +3,49 @@
  *
  * This agent:
  * - Uses Mastra Memory to store conversation history
- * - Uses Azure AI Search as the vector backend for semantic recall
+ * - Uses the configured vector store for semantic recall, in its own index
+ *   (MEMORY_INDEX_NAME), checked on startup
  * - Can also use the vector-store tools to query the knowledge index
  */
 
 import { Agent } from '@mastra/core/agent';
-import { Memory } from '@mastra/memory';
 import { openai } from '@ai-sdk/openai';
-import { AzureAISearchVector } from '@mastra/aisearch';
 
 import {
-  searchDocumentsTool,
+  createSearchDocumentsTool,
   addDocumentTool,
   listIndexesTool,
   getIndexStatsTool,
-  searchWithFiltersTool,
 } from '../tools/vector-store-tools';
+import { categorizationInstructions, describeCategories, knowledgeCategoryNames } from '../rag/categories';
+import { duplicateInstructions } from '../rag/duplicates';
+import { embeddingProvider } from '../rag/embeddings';
+import { contextBudgetFor } from '../rag/packing';
+import { parseQueryRewriteStrategy } from '../rag/query-rewriting';
+import { createReranker } from '../rag/reranking';
+import { createVectorStore, vectorStoreConfigurationError } from '../rag/vector-store';
+import { KnowledgeMemory } from '../memory/knowledge-memory';
+import { userProfileSchema } from '../memory/user-profile';
+import { knowledgeAgentScorers } from '../scorers/knowledge-scorers';
+import { citationInstructions } from '../rag/citations';
+
+// Categories this agent is allowed to search (also listed in its instructions)
+const searchCategories = knowledgeCategoryNames;
+
+// Reranker applied to search candidates: none | keyword | llm | azure-semantic
+const reranker = createReranker(process.env.KNOWLEDGE_MEMORY_AGENT_RERANKER);
+
+// Query rewrite strategy when a search does not ask for one: none | standalone | multi-query | hyde
+const rewrite = parseQueryRewriteStrategy(process.env.KNOWLEDGE_MEMORY_AGENT_QUERY_REWRITE);
+
+const model = openai('gpt-4o');
+
+// Token budget of search results: KNOWLEDGE_MEMORY_AGENT_CONTEXT_BUDGET, or a share of the model's context window
+const contextBudget = contextBudgetFor(model.modelId, process.env.KNOWLEDGE_MEMORY_AGENT_CONTEXT_BUDGET);
+
+// Vector store for MEMORY; recalled messages go to their own index, never the knowledge index
+const memoryVectorStore = createVectorStore('knowledge-memory');
 
-// Vector store for MEMORY (separate from your "knowledge-base" index)
-const memoryVectorStore = new AzureAISearchVector({
-  id: 'knowledge-memory',
-  endpoint: process.env.AZURE_AI_SEARCH_ENDPOINT || '',
-  credential: process.env.AZURE_AI_SEARCH_CREDENTIAL || '',
-  // ⚠️ Si en tu implementación has añadido soporte para index por defecto,
-  // aquí podrías pasar algo como:
-  // indexName: 'mastra-conversation-memory'
-  //
-  // Si no, asegúrate de que dentro de AzureAISearchVector, cuando se use
-  // como MastraVector, use un índice distinto a "knowledge-base"
-});
-const memoryVector = azureVector as unknown as MastraVector<VectorFilter>;
 export const knowledgeMemoryAgent = new Agent({
   id: 'knowledge-memory-agent',
   name: 'Knowledge Assistant (Memory + Azure AI Search)',
@@ -47,33 +60,47 @@ Your goals:
 3. Use the knowledge base tools to retrieve accurate, grounded information.
 4. Always explain which document or source you are using (document title).
 5. If you don't find relevant information, say so clearly and suggest a better query.
+6. When the question clearly belongs to a category, tag or time period, add a metadata filter to the search (e.g. { category: "science" }); search with format "snippet" or "ids" when you only need to skim or list documents.
+7. For follow-up questions that depend on earlier turns ("what about the quantum one?"), search with rewrite "standalone" or "multi-query" (or "hyde" for vague questions); the tool rewrites the query with the recent conversation and returns the rewritten queries.
+8. Search results fit a token budget; when the packing report lists a truncated or dropped document you need, search for it again with a filter or fewer results.
+
+User profile (working memory):
+- Keep it up to date: add domains of interest and preferred categories as they become clear, the language the user writes in or asks for, and the documents you cite (documentId and title) to seenDocuments
+- Answer in the preferred language when one is set
+- The search tool reads the profile: they boost the user's categories and interests and flag documents marked "seen: true"; prefer new documents unless the user asks for one again
 
+Knowledge base categories (searches are limited to these):
+${describeCategories(searchCategories)}
+
+${categorizationInstructions}
+${duplicateInstructions(false)}
+${citationInstructions}
 Be conversational, precise, and explicit about which sources you used.`,
-  model: openai('gpt-4o'),
+  model,
 
   // 🔥 Mastra Memory configuration
-  memory: new Memory({
+  memory: new KnowledgeMemory({
     // Storage ya lo tienes configurado en el Mastra root con LibSQLStore
     // Aquí solo definimos vector + embedder + opciones
 
     vector: memoryVectorStore,
-    embedder: openai.embedding('text-embedding-3-small'),
+    embedder: embeddingProvider.model,
     options: {
       // cuántos mensajes recientes se inyectan siempre
       lastMessages: 20,
 
-      // activar semantic recall usando Azure AI Search
+      // activar semantic recall sobre el índice de memoria
       semanticRecall: {
         topK: 5,          // cuántos mensajes similares recuperar
         messageRange: 2,  // contexto alrededor de cada match
         scope: 'resource' // memoria por usuario (resourceId)
       },
 
-      // opcional: working memory para hechos persistentes del usuario
+      // working memory: perfil del usuario, usado también por las herramientas de búsqueda
       workingMemory: {
         enabled: true,
         scope: 'resource',
-        // puedes customizar el template más adelante si quieres
+        schema: userProfileSchema,
       },
 
       // opcional: títulos automáticos de hilos
@@ -81,14 +108,19 @@ Be conversational, precise, and explicit about which sources you used.`,
         generateTitle: true,
       },
     },
+  }, {
+    // Check the memory index now rather than on the first recalled message
+    checkOnStartup: !vectorStoreConfigurationError(),
   }),
 
   // Herramientas para consultar / poblar el índice de conocimiento
   tools: {
-    searchDocuments: searchDocumentsTool,
+    searchDocuments: createSearchDocumentsTool({ categories: searchCategories, reranker, rewrite, contextBudget }),
     addDocument: addDocumentTool,
     listIndexes: listIndexesTool,
     getIndexStats: getIndexStatsTool,
-    searchWithFilters: searchWithFiltersTool,
   },
+
+  // Citation, groundedness and no-results checks on a sample of the answers
+  scorers: knowledgeAgentScorers(),
 });
@@ -0,0 +1,95 @@
+/**
+ * Retrieval evaluation dataset
+ *
+ * Queries over the sample documents with the titles a good search should
+ * return. Some queries paraphrase the document, some use exact terms
+ * (acronyms, product names) and some need several documents.
+ */
+
+export interface RetrievalEvalCase {
+  query: string;
+  /** Titles of the relevant documents, any order */
+  expectedTitles: string[];
+}
+
+export const retrievalDataset: RetrievalEvalCase[] = [
+  {
+    query: 'What is artificial intelligence?',
+    expectedTitles: ['Introduction to Artificial Intelligence'],
+  },
+  {
+    query: 'systems that learn, reason and make decisions like humans',
+    expectedTitles: ['Introduction to Artificial Intelligence'],
+  },
+  {
+    query: 'How do databases search by semantic similarity?',
+    expectedTitles: ['Vector Databases'],
+  },
+  {
+    query: 'Azure cloud search service with full-text and vector search',
+    expectedTitles: ['Azure AI Search: Cognitive Search'],
+  },
+  {
+    query: 'text-embedding-3-small 1536 dimensions',
+    expectedTitles: ['Embeddings and Semantic Representation'],
+  },
+  {
+    query: 'comparing the meaning of texts with cosine distance',
+    expectedTitles: ['Embeddings and Semantic Representation'],
+  },
+  {
+    query: 'How can an LLM answer with fewer hallucinations using retrieved documents?',
+    expectedTitles: ['RAG Architectures (Retrieval Augmented Generation)'],
+  },
+  {
+    query: 'RAG',
+    expectedTitles: [
+      'RAG Architectures (Retrieval Augmented Generation)',
+      'Azure AI Search: Cognitive Search',
+      'Vector Databases',
+    ],
+  },
+  {
+    query: 'greenhouse gases and melting glaciers',
+    expectedTitles: ['Climate Change and Its Effects'],
+  },
+  {
+    query: 'qubits superposition entanglement',
+    expectedTitles: ['Quantum Computing: The Future of Technology'],
+  },
+  {
+    query: 'Scrum sprints and Kanban',
+    expectedTitles: ['Agile Methodologies in Software Development'],
+  },
+  {
+    query: 'How do I rank higher in search engines?',
+    expectedTitles: ['Digital Marketing and SEO'],
+  },
+  {
+    query: 'healthy diet with vegetables and lean proteins',
+    expectedTitles: ['Nutrition and Holistic Health'],
+  },
+  {
+    query: 'labeled vs unlabeled training data',
+    expectedTitles: ['Supervised vs Unsupervised Machine Learning'],
+  },
+  {
+    query: 'static typing for JavaScript',
+    expectedTitles: ['TypeScript: JavaScript with Types'],
+  },
+  {
+    query: 'machine learning',
+    expectedTitles: [
+      'Supervised vs Unsupervised Machine Learning',
+      'Introduction to Artificial Intelligence',
+    ],
+  },
+  {
+    query: 'semantic search with embeddings',
+    expectedTitles: [
+      'Vector Databases',
+      'Embeddings and Semantic Representation',
+      'Azure AI Search: Cognitive Search',
+    ],
+  },
+];
@@ -0,0 +1,34 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { embeddingProvider } from '../rag/embeddings';
+import { ingestDocuments } from '../rag/ingestion';
+import { sampleDocuments } from '../rag/sample-documents';
+import { createVectorStore } from '../rag/vector-store';
+import { searchDocumentsTool } from '../tools/vector-store-tools';
+import { retrievalDataset } from './retrieval-dataset';
+import { compareWithBaseline, loadBaseline, runRetrievalEval } from './retrieval-eval';
+
+const EVAL_INDEX = 'retrieval-eval';
+const BASELINE_PATH = 'src/mastra/evals/retrieval-baseline.json';
+
+describe('retrieval evaluation', () => {
+  beforeAll(async () => {
+    const vectorStore = createVectorStore('knowledge-base');
+    await vectorStore.createIndex({ indexName: EVAL_INDEX, dimension: embeddingProvider.dimension, metric: 'cosine' });
+    const summary = await ingestDocuments(vectorStore, sampleDocuments, { indexName: EVAL_INDEX, checkpointPath: false });
+    expect(summary.failed).toEqual([]);
+  });
+
+  it('has no regressions against the baseline', async () => {
+    const baseline = await loadBaseline(BASELINE_PATH);
+    const report = await runRetrievalEval({
+      tool: searchDocumentsTool,
+      dataset: retrievalDataset,
+      indexName: EVAL_INDEX,
+      k: baseline?.k,
+      embedder: `${embeddingProvider.name}/${embeddingProvider.modelId} (${embeddingProvider.dimension}d)`,
+    });
+
+    expect(baseline?.embedder).toBe(report.embedder);
+    expect(compareWithBaseline(report, baseline!)).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Retrieval evaluation
+ *
+ * Runs every query of a dataset through the search tool and measures how
+ * well the expected documents are ranked:
+ * - recall@k: share of the expected documents found in the top k
+ * - MRR: mean of 1 / rank of the first expected document
+ * - nDCG@k: ranking quality with binary relevance, 1 when every expected
+ *   document comes first
+ *
+ * Reports can be compared with a saved baseline to catch regressions.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import type { SearchMode } from '../rag/keyword-search';
+import type { createSearchDocumentsTool } from '../tools/vector-store-tools';
+import type { RetrievalEvalCase } from './retrieval-dataset';
+
+export interface RetrievalMetrics {
+  recallAtK: number;
+  mrr: number;
+  ndcgAtK: number;
+}
+
+export interface CaseResult {
+  query: string;
+  expectedTitles: string[];
+  retrievedTitles: string[];
+  recallAtK: number;
+  reciprocalRank: number;
+  ndcgAtK: number;
+}
+
+export interface RetrievalReport {
+  k: number;
+  embedder: string;
+  modes: Partial<Record<SearchMode, { metrics: RetrievalMetrics; cases: CaseResult[] }>>;
+}
+
+export interface Regression {
+  mode: SearchMode;
+  /** Metric name, or the query whose results got worse */
+  metric: keyof RetrievalMetrics | 'query';
+  query?: string;
+  baseline: number;
+  current: number;
+}
+
+type SearchTool = ReturnType<typeof createSearchDocumentsTool>;
+
+export function recallAtK(retrieved: string[], expected: string[], k: number): number {
+  if (expected.length === 0) return 0;
+  const top = new Set(retrieved.slice(0, k));
+  return expected.filter((title) => top.has(title)).length / expected.length;
+}
+
+export function reciprocalRank(retrieved: string[], expected: string[]): number {
+  const rank = retrieved.findIndex((title) => expected.includes(title));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+export function ndcgAtK(retrieved: string[], expected: string[], k: number): number {
+  const dcg = retrieved
+    .slice(0, k)
+    .reduce((sum, title, i) => sum + (expected.includes(title) ? 1 / Math.log2(i + 2) : 0), 0);
+  const ideal = Array.from({ length: Math.min(expected.length, k) }, (_, i) => 1 / Math.log2(i + 2)).reduce(
+    (sum, gain) => sum + gain,
+    0,
+  );
+  return ideal === 0 ? 0 : dcg / ideal;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Runs the dataset through the search tool once per mode
+ */
+export async function runRetrievalEval({
+  tool,
+  dataset,
+  indexName,
+  k = 5,
+  modes = ['vector', 'keyword', 'hybrid'],
+  embedder,
+}: {
+  tool: SearchTool;
+  dataset: RetrievalEvalCase[];
+  indexName: string;
+  k?: number;
+  modes?: SearchMode[];
+  /** Embedder description stored with the report, e.g. "local/local-hash-384" */
+  embedder: string;
+}): Promise<RetrievalReport> {
+  const report: RetrievalReport = { k, embedder, modes: {} };
+
+  for (const mode of modes) {
+    const cases: CaseResult[] = [];
+
+    for (const { query, expectedTitles } of dataset) {
+      const output = await tool.execute({
+        context: { query, indexName, topK: k, mode, groupByDocument: true, format: 'ids', personalize: false },
+        runtimeContext: new RuntimeContext(),
+      });
+      if (!output.success) {
+        throw new Error(`Search failed for '${query}' (${mode}): ${output.error}`);
+      }
+
+      const retrievedTitles = output.results.map((r) => r.title);
+      cases.push({
+        query,
+        expectedTitles,
+        retrievedTitles,
+        recallAtK: recallAtK(retrievedTitles, expectedTitles, k),
+        reciprocalRank: reciprocalRank(retrievedTitles, expectedTitles),
+        ndcgAtK: ndcgAtK(retrievedTitles, expectedTitles, k),
+      });
+    }
+
+    report.modes[mode] = {
+      metrics: {
+        recallAtK: mean(cases.map((c) => c.recallAtK)),
+        mrr: mean(cases.map((c) => c.reciprocalRank)),
+        ndcgAtK: mean(cases.map((c) => c.ndcgAtK)),
+      },
+      cases,
+    };
+  }
+
+  return report;
+}
+
+/**
+ * Lists the metrics, and the individual queries, that got worse than the
+ * baseline by more than `tolerance`
+ */
+export function compareWithBaseline(
+  report: RetrievalReport,
+  baseline: RetrievalReport,
+  tolerance = 0.01,
+): Regression[] {
+  const regressions: Regression[] = [];
+
+  for (const [mode, current] of Object.entries(report.modes) as [SearchMode, RetrievalReport['modes'][SearchMode]][]) {
+    const previous = baseline.modes[mode];
+    if (!current || !previous) continue;
+
+    for (const metric of ['recallAtK', 'mrr', 'ndcgAtK'] as const) {
+      if (current.metrics[metric] < previous.metrics[metric] - tolerance) {
+        regressions.push({ mode, metric, baseline: previous.metrics[metric], current: current.metrics[metric] });
+      }
+    }
+
+    const previousCases = new Map(previous.cases.map((c) => [c.query, c]));
+    for (const result of current.cases) {
+      const before = previousCases.get(result.query);
+      if (before && result.ndcgAtK < before.ndcgAtK - tolerance) {
+        regressions.push({ mode, metric: 'query', query: result.query, baseline: before.ndcgAtK, current: result.ndcgAtK });
+      }
+    }
+  }
+
+  return regressions;
+}
+
+export async function loadBaseline(path: string): Promise<RetrievalReport | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return undefined;
+    throw new Error(`Could not read baseline file '${path}': ${error.message}`);
+  }
+}
+
+export async function saveBaseline(path: string, report: RetrievalReport): Promise<void> {
+  await writeFile(path, JSON.stringify(report, null, 2) + '\n');
+}
@@ -1,30 +1,46 @@
 
 import { Mastra } from '@mastra/core/mastra';
-import { PinoLogger } from '@mastra/loggers';
-import { LibSQLStore } from '@mastra/libsql';
 import { weatherWorkflow } from './workflows/weather-workflow';
+import { ingestDocumentWorkflow } from './workflows/ingest-document-workflow';
 import { weatherAgent } from './agents/weather-agent';
 import { knowledgeAgent } from './agents/knowledge-agent';
 import { toolCallAppropriatenessScorer, completenessScorer, translationScorer } from './scorers/weather-scorer';
 import { knowledgeMemoryAgent } from './agents/knowledge-memory-agent';
+import { citationScorer, groundednessScorer, noResultsAnswerScorer } from './scorers/knowledge-scorers';
+import { answerWithCitationsRoute, embeddingCacheStatsRoute } from './routes/knowledge-routes';
+import { tenantMiddleware } from './routes/tenant-middleware';
+import { callerMiddleware } from './routes/caller-middleware';
+import { logger } from './logger';
+import { KnowledgeLibSQLStore } from './memory/libsql-storage';
 
 export const mastra = new Mastra({
-  workflows: { weatherWorkflow },
+  workflows: { weatherWorkflow, ingestDocumentWorkflow },
   agents: { 
     weatherAgent,
     knowledgeAgent,
     knowledgeMemoryAgent,
   },
-  scorers: { toolCallAppropriatenessScorer, completenessScorer, translationScorer },
-  storage: new LibSQLStore({
+  scorers: {
+    toolCallAppropriatenessScorer,
+    completenessScorer,
+    translationScorer,
+    citationScorer,
+    groundednessScorer,
+    noResultsAnswerScorer,
+  },
+  storage: new KnowledgeLibSQLStore({
     // stores observability, scores, ... into memory storage, if it needs to persist, change to file:../mastra.db
     // url: ":memory:",
     url: 'file:./mastra.db'
   }),
-  logger: new PinoLogger({
-    name: 'Mastra',
-    level: 'info',
-  }),
+  server: {
+    // Structured answers with verified citations for UI/API consumers, and embedding cache metrics
+    apiRoutes: [answerWithCitationsRoute, embeddingCacheStatsRoute],
+    // Tenant of each request (X-Tenant-Id), used to isolate knowledge base indexes,
+    // and caller (X-User-Id, X-User-Groups), used to filter restricted documents
+    middleware: [tenantMiddleware, callerMiddleware],
+  },
+  logger,
   telemetry: {
     // Telemetry is deprecated and will be removed in the Nov 4th release
     enabled: true, 
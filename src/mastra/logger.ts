@@ -0,0 +1,14 @@
+/**
+ * Application logger
+ *
+ * The Mastra instance logs through it, and so do the modules that report
+ * problems outside of an agent or workflow step (search backends, caches,
+ * memory checks), so every message goes to the same Pino transports.
+ */
+
+import { PinoLogger } from '@mastra/loggers';
+
+export const logger = new PinoLogger({
+  name: 'Mastra',
+  level: 'info',
+});
@@ -0,0 +1,152 @@
+/**
+ * Memory for the knowledge agents
+ *
+ * Mastra Memory derives the name of its semantic recall index itself
+ * (memory_messages[_<dimension>]) and creates it lazily. KnowledgeMemory
+ * stores the recalled messages in an explicitly named index instead
+ * (MEMORY_INDEX_NAME), which is checked on startup:
+ * - the name must differ from the knowledge index, so conversation vectors
+ *   never end up next to the documents
+ * - an existing index must have the embedder's dimension; with
+ *   `checkOnStartup`, a mismatch is logged and stops the process
+ * - a missing index is created
+ */
+
+import { Memory } from '@mastra/memory';
+import type { MastraVector } from '@mastra/core/vector';
+import type { MemoryConfig, SharedMemoryConfig } from '@mastra/core/memory';
+import { logger } from '../logger';
+import { embeddingProvider, forgetIndexDimension } from '../rag/embeddings';
+import { knowledgeIndexName, physicalIndexName } from '../rag/vector-store';
+
+export interface KnowledgeMemoryOptions {
+  /** Memory index name (default: memoryIndexNameFor(vector)) */
+  indexName?: string;
+  /** Dimension of the memory embeddings (default: the configured embedder's) */
+  dimension?: number;
+  /**
+   * Check the index when the memory is created: a dimension mismatch stops
+   * the process, other failures are logged and the check is repeated on
+   * first use
+   */
+  checkOnStartup?: boolean;
+}
+
+export interface MemoryIndexOptions {
+  /** Index holding the recalled message vectors */
+  indexName: string;
+  dimension: number;
+  /** Knowledge index the memory index must not share */
+  knowledgeIndexName: string;
+}
+
+/**
+ * Default memory index name: MEMORY_INDEX_NAME (see `physicalIndexName`), or
+ * memory<separator>messages using the separator the store accepts in index
+ * names
+ */
+export function memoryIndexNameFor(vectorStore: MastraVector<any>, env: NodeJS.ProcessEnv = process.env): string {
+  return env.MEMORY_INDEX_NAME ? physicalIndexName(env.MEMORY_INDEX_NAME) : `memory${vectorStore.indexSeparator}messages`;
+}
+
+/**
+ * Fails when the memory and knowledge indexes would be the same index
+ */
+export function assertNoIndexCollision({ indexName, knowledgeIndexName }: MemoryIndexOptions): void {
+  if (indexName.toLowerCase() === knowledgeIndexName.toLowerCase()) {
+    throw new Error(
+      `The memory index '${indexName}' is the knowledge index: conversation messages would be stored ` +
+        `with the knowledge base documents. Set MEMORY_INDEX_NAME to a different index.`,
+    );
+  }
+}
+
+/**
+ * The memory index exists with another dimension than the embedder's
+ */
+export class MemoryIndexMismatchError extends Error {
+  name = 'MemoryIndexMismatchError';
+}
+
+/**
+ * Creates the memory index if it does not exist, and fails with a clear
+ * message if it exists with another dimension
+ */
+export async function ensureMemoryIndex(vectorStore: MastraVector<any>, options: MemoryIndexOptions): Promise<void> {
+  assertNoIndexCollision(options);
+  const { indexName, dimension } = options;
+
+  const indexes = await vectorStore.listIndexes();
+  if (!indexes.includes(indexName)) {
+    await vectorStore.createIndex({ indexName, dimension, metric: 'cosine' });
+    forgetIndexDimension(vectorStore, indexName);
+    return;
+  }
+
+  const stats = await vectorStore.describeIndex({ indexName });
+  if (stats.dimension !== dimension) {
+    throw new MemoryIndexMismatchError(
+      `Memory index '${indexName}' stores ${stats.dimension}-dimensional vectors but the '${embeddingProvider.name}' ` +
+        `embedder produces ${dimension}. Point MEMORY_INDEX_NAME to a new index or delete '${indexName}'.`,
+    );
+  }
+}
+
+/**
+ * Memory whose semantic recall uses a named, verified index
+ */
+export class KnowledgeMemory extends Memory {
+  readonly indexName: string;
+  private readonly indexOptions: MemoryIndexOptions;
+  // Memory only keeps `vector` when semantic recall is enabled
+  readonly vectorStore: MastraVector<any>;
+  private indexReady?: Promise<void>;
+
+  constructor(
+    config: SharedMemoryConfig & { vector: MastraVector<any> },
+    {
+      indexName = memoryIndexNameFor(config.vector),
+      dimension = embeddingProvider.dimension,
+      checkOnStartup = false,
+    }: KnowledgeMemoryOptions = {},
+  ) {
+    super(config);
+    this.indexName = indexName;
+    this.vectorStore = config.vector;
+    this.indexOptions = { indexName, dimension, knowledgeIndexName: physicalIndexName(knowledgeIndexName) };
+
+    // Fail fast on a misconfiguration instead of at the first recalled message
+    assertNoIndexCollision(this.indexOptions);
+
+    if (checkOnStartup) {
+      this.ensureIndex().catch((error) => {
+        if (error instanceof MemoryIndexMismatchError) {
+          logger.error(`[memory] ${error.message}`, { indexName });
+          process.exit(1);
+        }
+        logger.warn(`[memory] Could not check the memory index on startup: ${error.message}`, { indexName });
+      });
+    }
+  }
+
+  /**
+   * Checks (once) that the memory index exists with the right dimension
+   */
+  ensureIndex(): Promise<void> {
+    this.indexReady ??= ensureMemoryIndex(this.vectorStore, this.indexOptions).catch((error) => {
+      this.indexReady = undefined;
+      throw error;
+    });
+    return this.indexReady;
+  }
+
+  protected async createEmbeddingIndex(dimensions?: number, _config?: MemoryConfig): Promise<{ indexName: string }> {
+    if (dimensions !== undefined && dimensions !== this.indexOptions.dimension) {
+      throw new Error(
+        `Memory embeddings have ${dimensions} dimensions but index '${this.indexName}' is configured for ${this.indexOptions.dimension}`,
+      );
+    }
+    await this.ensureIndex();
+    return { indexName: this.indexName };
+  }
+}
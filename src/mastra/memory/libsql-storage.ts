@@ -0,0 +1,37 @@
+/**
+ * Mastra storage that can delete resource records
+ *
+ * Mastra storages can read and update the record of a resource (its working
+ * memory) but not delete it, which forgetting a user requires (see
+ * ./memory-admin). This LibSQLStore is built on a client it owns, through
+ * LibSQLStore's `client` option, and deletes the record with it.
+ */
+
+import { createClient, type Client } from '@libsql/client';
+import { TABLE_RESOURCES } from '@mastra/core/storage';
+import { LibSQLStore } from '@mastra/libsql';
+import { logger } from '../logger';
+
+export class KnowledgeLibSQLStore extends LibSQLStore {
+  private readonly db: Client;
+
+  constructor({ url, authToken }: { url: string; authToken?: string }) {
+    const client = createClient({ url, ...(authToken ? { authToken } : {}) });
+    super({ client });
+    this.db = client;
+
+    // Same settings LibSQLStore applies to the clients it creates for local files
+    if (url.startsWith('file:')) {
+      client
+        .executeMultiple('PRAGMA journal_mode=WAL; PRAGMA busy_timeout = 5000;')
+        .catch((error) => logger.warn(`[storage] Could not configure '${url}': ${error.message}`));
+    }
+  }
+
+  /**
+   * Deletes the record (working memory) of a resource, if any
+   */
+  async deleteResource({ resourceId }: { resourceId: string }): Promise<void> {
+    await this.db.execute({ sql: `DELETE FROM ${TABLE_RESOURCES} WHERE id = ?`, args: [resourceId] });
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Memory administration
+ *
+ * Inspects, exports and forgets what a KnowledgeMemory stores about one
+ * resource (user):
+ * - threads and messages, in the Mastra storage (LibSQL)
+ * - working memory, kept per resource in the same storage
+ * - recalled message vectors, in the memory index
+ *
+ * Vector stores can only be read through similarity queries, so the vectors
+ * of a resource are found with a query filtered on `resource_id`, as many as
+ * the index holds (when the store filters client-side, every vector is a
+ * candidate).
+ */
+
+import type { QueryResult } from '@mastra/core/vector';
+import type { MastraMessageV2, StorageThreadType } from '@mastra/core/memory';
+import { embedText } from '../rag/embeddings';
+import { queryWithFilter } from '../rag/filters';
+import type { KnowledgeMemory } from './knowledge-memory';
+import { KnowledgeLibSQLStore } from './libsql-storage';
+
+// Delete passes of forget: vectors found again after a pass (e.g. recalled
+// meanwhile) get another one, up to this many
+const MAX_FORGET_PASSES = 3;
+const MESSAGES_PAGE_SIZE = 100;
+
+export interface RecalledVector {
+  id: string;
+  messageId?: string;
+  threadId?: string;
+}
+
+export interface ResourceMemorySummary {
+  resourceId: string;
+  threads: { id: string; title?: string; createdAt: Date; updatedAt: Date; messageCount: number }[];
+  workingMemory: string | null;
+  vectors: RecalledVector[];
+}
+
+export interface ResourceMemoryExport {
+  resourceId: string;
+  exportedAt: string;
+  workingMemory: string | null;
+  threads: (StorageThreadType & { messages: MastraMessageV2[] })[];
+}
+
+export interface ForgetResult {
+  resourceId: string;
+  deletedThreads: number;
+  deletedMessages: number;
+  deletedVectors: number;
+  /** Vectors of the resource still found after deleting (0 unless the store keeps or re-adds them) */
+  remainingVectors: number;
+  /** false when the storage cannot delete the resource record, so working memory was only emptied */
+  deletedWorkingMemory: boolean;
+}
+
+async function threadMessages(memory: KnowledgeMemory, threadId: string): Promise<MastraMessageV2[]> {
+  const messages: MastraMessageV2[] = [];
+  for (let page = 0; ; page++) {
+    const result = await memory.storage.getMessagesPaginated({
+      threadId,
+      format: 'v2',
+      selectBy: { pagination: { page, perPage: MESSAGES_PAGE_SIZE } },
+    });
+    messages.push(...(result.messages as MastraMessageV2[]));
+    if (!result.hasMore) return messages;
+  }
+}
+
+async function resourceVectors(memory: KnowledgeMemory, resourceId: string): Promise<QueryResult[]> {
+  const indexes = await memory.vectorStore.listIndexes();
+  if (!indexes.includes(memory.indexName)) return [];
+
+  const { count } = await memory.vectorStore.describeIndex({ indexName: memory.indexName });
+  if (count === 0) return [];
+
+  // Any vector works as probe: only the filter matters
+  const { results } = await queryWithFilter(memory.vectorStore, {
+    indexName: memory.indexName,
+    queryVector: await embedText(resourceId),
+    topK: count,
+    candidateLimit: count,
+    filter: { resource_id: resourceId },
+  });
+  return results;
+}
+
+async function workingMemoryOf(memory: KnowledgeMemory, resourceId: string): Promise<string | null> {
+  const resource = await memory.storage.getResourceById({ resourceId });
+  return resource?.workingMemory ?? null;
+}
+
+/**
+ * Threads, working memory and recalled vectors stored for a resource
+ */
+export async function inspectResourceMemory(
+  memory: KnowledgeMemory,
+  resourceId: string,
+): Promise<ResourceMemorySummary> {
+  const threads = await memory.getThreadsByResourceId({ resourceId });
+
+  return {
+    resourceId,
+    threads: await Promise.all(
+      threads.map(async (thread) => ({
+        id: thread.id,
+        title: thread.title,
+        createdAt: thread.createdAt,
+        updatedAt: thread.updatedAt,
+        messageCount: (await threadMessages(memory, thread.id)).length,
+      })),
+    ),
+    workingMemory: await workingMemoryOf(memory, resourceId),
+    vectors: (await resourceVectors(memory, resourceId)).map((r) => ({
+      id: r.id,
+      messageId: r.metadata?.message_id,
+      threadId: r.metadata?.thread_id,
+    })),
+  };
+}
+
+/**
+ * Everything stored for a resource, as JSON-serializable data
+ */
+export async function exportResourceMemory(
+  memory: KnowledgeMemory,
+  resourceId: string,
+): Promise<ResourceMemoryExport> {
+  const threads = await memory.getThreadsByResourceId({ resourceId });
+
+  return {
+    resourceId,
+    exportedAt: new Date().toISOString(),
+    workingMemory: await workingMemoryOf(memory, resourceId),
+    threads: await Promise.all(
+      threads.map(async (thread) => ({ ...thread, messages: await threadMessages(memory, thread.id) })),
+    ),
+  };
+}
+
+/**
+ * Deletes a resource's threads, messages, working memory and recalled
+ * vectors
+ */
+export async function forgetResource(memory: KnowledgeMemory, resourceId: string): Promise<ForgetResult> {
+  const result: ForgetResult = {
+    resourceId,
+    deletedThreads: 0,
+    deletedMessages: 0,
+    deletedVectors: 0,
+    remainingVectors: 0,
+    deletedWorkingMemory: false,
+  };
+
+  // Vectors first: they are only reachable by their resource_id metadata.
+  // A vector is deleted once; one still found afterwards counts as remaining.
+  const deleted = new Set<string>();
+  let found = await resourceVectors(memory, resourceId);
+  for (let pass = 0; pass < MAX_FORGET_PASSES; pass++) {
+    const pending = found.filter((vector) => !deleted.has(vector.id));
+    if (pending.length === 0) break;
+    for (const vector of pending) {
+      await memory.vectorStore.deleteVector({ indexName: memory.indexName, id: vector.id });
+      deleted.add(vector.id);
+    }
+    found = await resourceVectors(memory, resourceId);
+  }
+  result.deletedVectors = deleted.size;
+  result.remainingVectors = found.length;
+
+  for (const thread of await memory.getThreadsByResourceId({ resourceId })) {
+    result.deletedMessages += (await threadMessages(memory, thread.id)).length;
+    await memory.deleteThread(thread.id);
+    result.deletedThreads++;
+  }
+
+  const storage = memory.storage;
+  if (storage instanceof KnowledgeLibSQLStore) {
+    await storage.deleteResource({ resourceId });
+    result.deletedWorkingMemory = true;
+  } else if (await storage.getResourceById({ resourceId })) {
+    // Other storages have no way to delete a resource record
+    await storage.updateResource({ resourceId, workingMemory: '' });
+  } else {
+    result.deletedWorkingMemory = true;
+  }
+
+  return result;
+}
@@ -0,0 +1,151 @@
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { LibSQLStore } from '@mastra/libsql';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { z } from 'zod';
+import { embeddingProvider } from '../rag/embeddings';
+import { ingestDocuments } from '../rag/ingestion';
+import { searchRequestSchema } from '../rag/retrieval';
+import { sampleDocuments } from '../rag/sample-documents';
+import { createVectorStore } from '../rag/vector-store';
+import { createSearchDocumentsTool } from '../tools/vector-store-tools';
+import { KnowledgeMemory } from './knowledge-memory';
+import { personalize, userProfileSchema, type UserProfile } from './user-profile';
+
+const CHECK_INDEX = 'profile-check';
+const RESOURCE_ID = 'profile-check-user';
+const THREAD_ID = 'profile-check-thread';
+
+const query = 'modern research';
+const quantum = 'Quantum Computing: The Future of Technology';
+
+// Working memory configured like the knowledge memory agent's
+const memory = new KnowledgeMemory({
+  storage: new LibSQLStore({ url: ':memory:' }),
+  vector: createVectorStore('knowledge-memory'),
+  embedder: embeddingProvider.model,
+  options: { workingMemory: { enabled: true, scope: 'resource', schema: userProfileSchema } },
+});
+
+const searchDocuments = createSearchDocumentsTool();
+
+const setProfile = (profile: UserProfile) =>
+  memory.updateWorkingMemory({ threadId: THREAD_ID, resourceId: RESOURCE_ID, workingMemory: JSON.stringify(profile) });
+
+async function search(request: Partial<z.input<typeof searchRequestSchema>> & { query: string }) {
+  const output = await searchDocuments.execute({
+    context: searchRequestSchema.parse({ indexName: CHECK_INDEX, topK: 5, personalize: true, ...request }),
+    runtimeContext: new RuntimeContext(),
+    memory,
+    threadId: THREAD_ID,
+    resourceId: RESOURCE_ID,
+  });
+  if (!output.success) throw new Error(`Search failed: ${output.error}`);
+  return output;
+}
+
+function position(output: Awaited<ReturnType<typeof search>>, title: string) {
+  const index = output.results.findIndex((r) => r.title === title);
+  return index === -1 ? Infinity : index + 1;
+}
+
+describe('personalize', () => {
+  it('raises negative scores of boosted results', () => {
+    const ranked = personalize(
+      [
+        { documentId: 'a', score: -0.1, category: 'business' },
+        { documentId: 'b', score: -0.2, category: 'science' },
+      ],
+      { preferredCategories: ['science'] },
+      (item) => item,
+    );
+
+    expect(ranked.find((r) => r.item.documentId === 'b')!.score).toBeGreaterThan(-0.2);
+  });
+
+  it('lowers negative scores of seen documents', () => {
+    const [seen] = personalize([{ documentId: 'a', score: -0.1 }], { seenDocuments: [{ documentId: 'a' }] }, (item) => item);
+
+    expect(seen.score).toBeLessThan(-0.1);
+  });
+});
+
+describe('user profile in search', () => {
+  beforeAll(async () => {
+    const vectorStore = createVectorStore('knowledge-base');
+    await vectorStore.createIndex({ indexName: CHECK_INDEX, dimension: embeddingProvider.dimension, metric: 'cosine' });
+    const summary = await ingestDocuments(vectorStore, sampleDocuments, { indexName: CHECK_INDEX, checkpointPath: false });
+    expect(summary.failed).toEqual([]);
+
+    await memory.saveThread({
+      thread: { id: THREAD_ID, resourceId: RESOURCE_ID, title: 'Profile check', createdAt: new Date(), updatedAt: new Date() },
+    });
+  });
+
+  it('ranks documents of preferred categories higher', async () => {
+    await setProfile({});
+    const baseline = await search({ query });
+    await setProfile({ preferredCategories: ['science'] });
+    const boosted = await search({ query });
+
+    expect(boosted.personalized).toBe(true);
+    expect(position(boosted, quantum)).toBeLessThan(position(baseline, quantum));
+  });
+
+  it('narrows a search without a filter to the preferred categories', async () => {
+    await setProfile({});
+    const unfiltered = await search({ query, topK: 10 });
+    expect(unfiltered.results.some((r) => r.category !== 'science')).toBe(true);
+
+    await setProfile({ preferredCategories: ['science'] });
+    const narrowed = await search({ query, topK: 10 });
+
+    expect(narrowed.profileFilterApplied).toBe(true);
+    expect(narrowed.results.map((r) => r.category)).toEqual(narrowed.results.map(() => 'science'));
+  });
+
+  it('uses the preferred categories as the default category of a filtered search', async () => {
+    await setProfile({ preferredCategories: ['science'] });
+    const filtered = await search({ query, filter: {} });
+
+    expect(filtered.profileFilterApplied).toBe(true);
+    expect(filtered.results.map((r) => r.category)).toEqual(filtered.results.map(() => 'science'));
+  });
+
+  it('lets an explicit category override the preferred ones', async () => {
+    await setProfile({ preferredCategories: ['science'] });
+    const explicit = await search({ query, filter: { category: 'business' } });
+
+    expect(explicit.profileFilterApplied).toBe(false);
+    expect(explicit.results.map((r) => r.category)).toEqual(explicit.results.map(() => 'business'));
+  });
+
+  it('ranks documents matching domains of interest higher', async () => {
+    const wellness = 'Nutrition and Holistic Health';
+    await setProfile({});
+    const before = await search({ query: 'learning and wellbeing', topK: 12 });
+    await setProfile({ domainsOfInterest: ['nutrition'] });
+    const after = await search({ query: 'learning and wellbeing', topK: 12 });
+
+    expect(position(after, wellness)).toBeLessThan(position(before, wellness));
+  });
+
+  it('flags seen documents and scores them lower', async () => {
+    await setProfile({});
+    const [top] = (await search({ query })).results;
+    await setProfile({ seenDocuments: [{ documentId: top.documentId, title: top.title }] });
+    const seen = (await search({ query })).results.find((r) => r.documentId === top.documentId);
+
+    expect(seen?.seen).toBe(true);
+    expect(Number(seen?.score)).toBeLessThan(Number(top.score));
+  });
+
+  it('ignores the profile with personalize: false', async () => {
+    await setProfile({});
+    const baseline = await search({ query });
+    await setProfile({ preferredCategories: ['science'] });
+    const ignored = await search({ query, personalize: false });
+
+    expect(ignored.personalized).toBe(false);
+    expect(ignored.results.map((r) => r.title)).toEqual(baseline.results.map((r) => r.title));
+  });
+});
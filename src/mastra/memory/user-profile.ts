@@ -0,0 +1,136 @@
+/**
+ * User profile kept in working memory
+ *
+ * The knowledge memory agent maintains this profile per resource (user)
+ * through Mastra's working memory tool. The search tools read it back to
+ * personalize results:
+ * - preferred categories become the default category filter of every
+ *   search without an explicit category, and boost matching results
+ * - domains of interest boost results that mention them
+ * - documents already seen are flagged and ranked slightly lower
+ */
+
+import type { MastraMemory } from '@mastra/core/memory';
+import { z } from 'zod';
+import { knowledgeCategorySchema, type KnowledgeCategory } from '../rag/categories';
+
+// Score factors of personalized results (see `personalize`)
+export const PREFERRED_CATEGORY_BOOST = 1.25;
+export const DOMAIN_OF_INTEREST_BOOST = 1.1;
+export const SEEN_DOCUMENT_PENALTY = 0.9;
+
+export const userProfileSchema = z.object({
+  domainsOfInterest: z
+    .array(z.string())
+    .optional()
+    .describe('Topics the user keeps asking about, as short keywords (e.g. "machine learning", "nutrition")'),
+  preferredCategories: z
+    .array(knowledgeCategorySchema)
+    .optional()
+    .describe('Knowledge base categories the user is interested in'),
+  preferredLanguage: z
+    .string()
+    .optional()
+    .describe('Language the user wants answers in, as an ISO 639-1 code (e.g. "en", "es")'),
+  seenDocuments: z
+    .array(z.object({ documentId: z.string(), title: z.string().optional() }))
+    .optional()
+    .describe('Documents already shown to the user as sources, by documentId from the search results'),
+});
+
+export type UserProfile = z.infer<typeof userProfileSchema>;
+
+/**
+ * Parses working memory written with `userProfileSchema`; anything else
+ * (empty, markdown template, invalid JSON) yields no profile
+ */
+export function parseUserProfile(workingMemory: string | null | undefined): UserProfile | undefined {
+  if (!workingMemory) return undefined;
+  try {
+    const parsed = userProfileSchema.safeParse(JSON.parse(workingMemory));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Profile of the user a tool is running for, from the agent's working memory
+ */
+export async function loadUserProfile({
+  memory,
+  threadId,
+  resourceId,
+}: {
+  memory?: MastraMemory;
+  threadId?: string;
+  resourceId?: string;
+}): Promise<UserProfile | undefined> {
+  if (!memory || !threadId) return undefined;
+  const workingMemory = await memory.getWorkingMemory({ threadId, resourceId });
+  return parseUserProfile(workingMemory);
+}
+
+/**
+ * Default category filter from the profile, limited to the categories the
+ * agent may search
+ */
+export function profileCategoryFilter(
+  profile: UserProfile | undefined,
+  allowed?: readonly KnowledgeCategory[],
+): { category: { $in: KnowledgeCategory[] } } | undefined {
+  const preferred = (profile?.preferredCategories ?? []).filter((c) => !allowed?.length || allowed.includes(c));
+  return preferred.length > 0 ? { category: { $in: preferred } } : undefined;
+}
+
+export interface ProfileMatch {
+  /** Score factor: 1.25 raises the score by a quarter of its magnitude, 0.9 lowers it by a tenth */
+  boost: number;
+  preferredCategory: boolean;
+  matchedDomains: string[];
+  seen: boolean;
+}
+
+/**
+ * How a result relates to the profile, and the resulting score factor
+ */
+export function matchProfile(
+  profile: UserProfile,
+  result: { documentId: string; category?: string; title?: string; tags?: string[]; text?: string },
+): ProfileMatch {
+  const preferredCategory = !!result.category && (profile.preferredCategories ?? []).includes(result.category as KnowledgeCategory);
+
+  const haystack = [result.title, ...(result.tags ?? []), result.text].join(' ').toLowerCase();
+  const matchedDomains = (profile.domainsOfInterest ?? []).filter((domain) => haystack.includes(domain.toLowerCase()));
+
+  const seen = (profile.seenDocuments ?? []).some((d) => d.documentId === result.documentId);
+
+  let boost = 1;
+  if (preferredCategory) boost *= PREFERRED_CATEGORY_BOOST;
+  if (matchedDomains.length > 0) boost *= DOMAIN_OF_INTEREST_BOOST;
+  if (seen) boost *= SEEN_DOCUMENT_PENALTY;
+
+  return { boost, preferredCategory, matchedDomains, seen };
+}
+
+/**
+ * Re-sorts results by their score boosted with the profile. The boost adds
+ * a share of the score's magnitude, so it raises negative scores (e.g.
+ * cosine similarities below 0) instead of lowering them further. Without a
+ * profile the order is unchanged.
+ */
+export function personalize<T>(
+  items: T[],
+  profile: UserProfile | undefined,
+  describe: (item: T) => { score: number; documentId: string; category?: string; title?: string; tags?: string[]; text?: string },
+): { item: T; score: number; profile?: ProfileMatch }[] {
+  if (!profile) return items.map((item) => ({ item, score: describe(item).score }));
+
+  return items
+    .map((item) => {
+      const fields = describe(item);
+      const match = matchProfile(profile, fields);
+      return { item, score: fields.score + Math.abs(fields.score) * (match.boost - 1), profile: match };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,153 @@
+/**
+ * Document-level access control
+ *
+ * Documents can be restricted with two metadata lists, set at ingestion and
+ * copied to every chunk:
+ * - allowedUsers: user IDs that may read the document
+ * - allowedGroups: groups whose members may read the document
+ * Documents with neither list are public.
+ *
+ * The caller comes from the runtime context (`userId`, `userGroups`).
+ * Search results the caller may not read are dropped before they reach the
+ * reranker or the model, and every denied hit is appended to an audit log
+ * (ACCESS_AUDIT_LOG, JSON lines).
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { logger } from '../logger';
+import { TENANT_CONTEXT_KEY } from './tenancy';
+
+export const USER_CONTEXT_KEY = 'userId';
+export const GROUPS_CONTEXT_KEY = 'userGroups';
+
+// HTTP headers the server reads the caller from (set by the gateway that authenticates the caller)
+export const USER_HEADER = 'x-user-id';
+export const GROUPS_HEADER = 'x-user-groups';
+
+export const DEFAULT_ACCESS_AUDIT_LOG = '.data/access-audit.log';
+
+export interface CallerIdentity {
+  userId?: string;
+  groups: string[];
+}
+
+export interface DocumentAccess {
+  allowedUsers?: string[];
+  allowedGroups?: string[];
+}
+
+/**
+ * Caller of the current request; anonymous callers only read public documents
+ */
+export function callerFromContext(runtimeContext?: RuntimeContext): CallerIdentity {
+  const userId = runtimeContext?.get(USER_CONTEXT_KEY) as string | undefined;
+  const groups = runtimeContext?.get(GROUPS_CONTEXT_KEY) as string[] | string | undefined;
+
+  return {
+    userId: userId || undefined,
+    groups: parseGroups(groups),
+  };
+}
+
+/**
+ * Groups from a list or a comma-separated string
+ */
+export function parseGroups(groups: string[] | string | undefined): string[] {
+  const list = typeof groups === 'string' ? groups.split(',') : (groups ?? []);
+  return list.map((group) => group.trim()).filter(Boolean);
+}
+
+/**
+ * ACL metadata for a document, omitting empty lists
+ */
+export function accessMetadata({ allowedUsers, allowedGroups }: DocumentAccess): DocumentAccess {
+  return {
+    ...(allowedUsers?.length ? { allowedUsers: [...allowedUsers] } : {}),
+    ...(allowedGroups?.length ? { allowedGroups: [...allowedGroups] } : {}),
+  };
+}
+
+export function isRestricted(metadata: DocumentAccess | undefined): boolean {
+  return !!(metadata?.allowedUsers?.length || metadata?.allowedGroups?.length);
+}
+
+export function canAccess(metadata: DocumentAccess | undefined, caller: CallerIdentity): boolean {
+  if (!isRestricted(metadata)) return true;
+  if (caller.userId && metadata!.allowedUsers?.includes(caller.userId)) return true;
+  return caller.groups.some((group) => metadata!.allowedGroups?.includes(group));
+}
+
+export interface AccessAuditEntry {
+  timestamp: string;
+  tool: string;
+  tenantId?: string;
+  userId?: string;
+  groups: string[];
+  indexName: string;
+  query?: string;
+  denied: { documentId: string; title?: string }[];
+}
+
+/**
+ * Appends denied hits to the audit log. Failures are reported but never
+ * fail the search.
+ */
+export async function auditDeniedHits(
+  entry: AccessAuditEntry,
+  path = process.env.ACCESS_AUDIT_LOG || DEFAULT_ACCESS_AUDIT_LOG,
+): Promise<void> {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await appendFile(path, JSON.stringify(entry) + '\n');
+  } catch (error: any) {
+    logger.error(`[access-control] Could not write the audit log '${path}': ${error.message}`);
+  }
+}
+
+/**
+ * Keeps the results the caller may read and audits the others
+ */
+export async function filterAccessible<T>(
+  items: T[],
+  {
+    runtimeContext,
+    metadataOf,
+    idOf,
+    audit,
+  }: {
+    runtimeContext?: RuntimeContext;
+    metadataOf: (item: T) => Record<string, any> | undefined;
+    /** Document ID of an item, as reported in the audit log */
+    idOf: (item: T) => string;
+    audit: Pick<AccessAuditEntry, 'tool' | 'indexName' | 'query'>;
+  },
+): Promise<T[]> {
+  const caller = callerFromContext(runtimeContext);
+  const allowed: T[] = [];
+  const denied = new Map<string, { documentId: string; title?: string }>();
+
+  for (const item of items) {
+    const metadata = metadataOf(item);
+    if (canAccess(metadata, caller)) {
+      allowed.push(item);
+      continue;
+    }
+    const documentId = idOf(item);
+    denied.set(documentId, { documentId, title: metadata?.title });
+  }
+
+  if (denied.size > 0) {
+    await auditDeniedHits({
+      timestamp: new Date().toISOString(),
+      ...audit,
+      tenantId: runtimeContext?.get(TENANT_CONTEXT_KEY) as string | undefined,
+      userId: caller.userId,
+      groups: caller.groups,
+      denied: [...denied.values()],
+    });
+  }
+
+  return allowed;
+}
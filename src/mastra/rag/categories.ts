@@ -0,0 +1,49 @@
+/**
+ * Knowledge base categories
+ *
+ * The taxonomy of the knowledge base, defined once and shared by the agent
+ * instructions, the search and write tools, the ingestion workflow and the
+ * populate script: the categories an agent is told about are the ones its
+ * searches are scoped to, and documents cannot be stored under any other.
+ */
+
+import { z } from 'zod';
+
+export const knowledgeCategories = {
+  technology: 'Articles about technology, programming, AI, etc.',
+  science: 'Scientific research, discoveries',
+  business: 'Business strategy, finance, marketing',
+  health: 'Medicine, wellness, nutrition',
+  education: 'Pedagogy, learning, courses',
+} as const;
+
+export type KnowledgeCategory = keyof typeof knowledgeCategories;
+
+export const knowledgeCategoryNames = Object.keys(knowledgeCategories) as KnowledgeCategory[];
+
+export const knowledgeCategorySchema = z.enum(knowledgeCategoryNames as [KnowledgeCategory, ...KnowledgeCategory[]]);
+
+export function isKnowledgeCategory(value: unknown): value is KnowledgeCategory {
+  return knowledgeCategorySchema.safeParse(value).success;
+}
+
+/**
+ * Error message for a category outside the taxonomy
+ */
+export function unknownCategoryError(category: string): string {
+  return `Unknown category '${category}'. Use one of: ${knowledgeCategoryNames.join(', ')}`;
+}
+
+/**
+ * Agent instructions on categorizing the documents it adds
+ */
+export const categorizationInstructions = `When adding documents:
+- Use one of the knowledge base categories; if none clearly fits, leave the category out and it will be classified automatically
+- If the result says needsReview: true, tell the user the category is a low-confidence guess and ask them to confirm or correct it`;
+
+/**
+ * Renders the category list for agent instructions
+ */
+export function describeCategories(categories: readonly KnowledgeCategory[] = knowledgeCategoryNames) {
+  return categories.map((category) => `- ${category}: ${knowledgeCategories[category]}`).join('\n');
+}
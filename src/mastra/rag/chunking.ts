@@ -0,0 +1,251 @@
+/**
+ * Document chunking
+ *
+ * Long documents are split into passages before embedding so that each
+ * vector represents a focused piece of text. Three strategies are available:
+ * - fixed: windows of a fixed number of characters
+ * - sentence: windows that only break between sentences
+ * - markdown: one section per heading, split further by sentences if too long
+ *
+ * Every chunk keeps a reference to its parent document (parentId, chunkIndex,
+ * title) so search results can be collapsed back to documents.
+ */
+
+import { z } from 'zod';
+
+export const chunkingOptionsSchema = z.object({
+  strategy: z
+    .enum(['fixed', 'sentence', 'markdown'])
+    .default('sentence')
+    .describe('How to split the document: fixed-size, sentence-aware, or by markdown headings'),
+  size: z.number().int().min(100).default(1000).describe('Maximum chunk size in characters'),
+  overlap: z
+    .number()
+    .int()
+    .min(0)
+    .default(150)
+    .describe('Characters repeated between consecutive chunks'),
+});
+
+export type ChunkingOptions = z.infer<typeof chunkingOptionsSchema>;
+
+export const defaultChunkingOptions: ChunkingOptions = chunkingOptionsSchema.parse({});
+
+export interface ChunkableDocument {
+  parentId: string;
+  title: string;
+  content: string;
+}
+
+export interface DocumentChunk {
+  text: string;
+  metadata: {
+    parentId: string;
+    chunkIndex: number;
+    chunkCount: number;
+    title: string;
+    heading?: string;
+  };
+}
+
+interface Passage {
+  text: string;
+  heading?: string;
+}
+
+function chunkFixed(text: string, size: number, overlap: number): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+
+    // Prefer to break on whitespace so words are not cut in half
+    if (end < text.length) {
+      const lastSpace = text.lastIndexOf(' ', end);
+      if (lastSpace > start + size / 2) end = lastSpace;
+    }
+
+    chunks.push(text.slice(start, end).trim());
+    if (end >= text.length) break;
+
+    // Step back by the overlap, starting the next window at a word boundary
+    let next = end - overlap;
+    const nextSpace = text.indexOf(' ', next);
+    if (next > 0 && text[next - 1] !== ' ' && nextSpace !== -1 && nextSpace < end) next = nextSpace + 1;
+    start = next > start ? next : end;
+  }
+
+  return chunks.filter((chunk) => chunk.length > 0);
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g) ?? [])
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function chunkSentences(text: string, size: number, overlap: number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  for (const sentence of splitSentences(text)) {
+    // A single sentence longer than the limit falls back to fixed windows
+    if (sentence.length > size) {
+      if (current.length > 0) chunks.push(current.join(' '));
+      chunks.push(...chunkFixed(sentence, size, overlap));
+      current = [];
+      currentLength = 0;
+      continue;
+    }
+
+    if (currentLength + sentence.length + 1 > size && current.length > 0) {
+      chunks.push(current.join(' '));
+
+      // Carry trailing sentences into the next chunk as overlap, leaving room
+      // for the sentence so the chunk stays within the size
+      const carried: string[] = [];
+      let carriedLength = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const length = carriedLength + current[i].length + 1;
+        if (length - 1 > overlap || length + sentence.length + 1 > size) break;
+        carried.unshift(current[i]);
+        carriedLength += current[i].length + 1;
+      }
+      current = carried;
+      currentLength = carriedLength;
+    }
+
+    current.push(sentence);
+    currentLength += sentence.length + 1;
+  }
+
+  if (current.length > 0) chunks.push(current.join(' '));
+  return chunks;
+}
+
+function splitMarkdownSections(text: string): Passage[] {
+  const sections: Passage[] = [];
+  const headingPath: string[] = [];
+  let buffer: string[] = [];
+  let heading: string | undefined;
+
+  const flush = () => {
+    const body = buffer.join('\n').trim();
+    if (body.length > 0) sections.push({ text: body, heading });
+    buffer = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const match = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (match) {
+      flush();
+      const level = match[1].length;
+      headingPath.splice(level - 1);
+      headingPath[level - 1] = match[2].trim();
+      heading = headingPath.filter(Boolean).join(' > ');
+    }
+    buffer.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+function splitPassages(content: string, { strategy, size, overlap }: ChunkingOptions): Passage[] {
+  const text = content.trim();
+  if (text.length === 0) return [];
+
+  switch (strategy) {
+    case 'fixed':
+      return chunkFixed(text, size, overlap).map((chunk) => ({ text: chunk }));
+    case 'sentence':
+      return chunkSentences(text, size, overlap).map((chunk) => ({ text: chunk }));
+    case 'markdown':
+      return splitMarkdownSections(text).flatMap((section) =>
+        section.text.length <= size
+          ? [section]
+          : chunkSentences(section.text, size, overlap).map((chunk) => ({
+              text: chunk,
+              heading: section.heading,
+            })),
+      );
+  }
+}
+
+/**
+ * Splits a document into chunks carrying their parent document metadata
+ */
+export function chunkDocument(
+  document: ChunkableDocument,
+  options: Partial<ChunkingOptions> = {},
+): DocumentChunk[] {
+  const resolved = chunkingOptionsSchema.parse({ ...defaultChunkingOptions, ...options });
+
+  if (resolved.overlap >= resolved.size) {
+    throw new Error(
+      `Chunk overlap (${resolved.overlap}) must be smaller than chunk size (${resolved.size})`,
+    );
+  }
+
+  const passages = splitPassages(document.content, resolved);
+
+  return passages.map((passage, chunkIndex) => ({
+    text: passage.text,
+    metadata: {
+      parentId: document.parentId,
+      chunkIndex,
+      chunkCount: passages.length,
+      title: document.title,
+      ...(passage.heading ? { heading: passage.heading } : {}),
+    },
+  }));
+}
+
+/**
+ * Text that gets embedded for a chunk. The title is repeated so that short
+ * passages keep the context of the document they come from.
+ */
+export function chunkEmbeddingText(chunk: DocumentChunk): string {
+  return chunk.metadata.heading
+    ? `${chunk.metadata.title}\n${chunk.metadata.heading}\n${chunk.text}`
+    : `${chunk.metadata.title}\n${chunk.text}`;
+}
+
+export interface DocumentHit<T extends { score: number; metadata?: Record<string, any> }> {
+  documentId: string;
+  score: number;
+  bestChunk: T;
+  matchedChunks: number;
+}
+
+/**
+ * Collapses chunk hits into one hit per parent document, keeping the best
+ * scoring chunk as the snippet. Results without a parentId (documents
+ * indexed before chunking) are treated as their own parent.
+ */
+export function collapseChunkHits<T extends { id: string; score: number; metadata?: Record<string, any> }>(
+  results: T[],
+  topK: number,
+): DocumentHit<T>[] {
+  const byDocument = new Map<string, DocumentHit<T>>();
+
+  for (const result of results) {
+    const documentId = result.metadata?.parentId ?? result.id;
+    const existing = byDocument.get(documentId);
+
+    if (!existing) {
+      byDocument.set(documentId, { documentId, score: result.score, bestChunk: result, matchedChunks: 1 });
+      continue;
+    }
+
+    existing.matchedChunks += 1;
+    if (result.score > existing.score) {
+      existing.score = result.score;
+      existing.bestChunk = result;
+    }
+  }
+
+  return [...byDocument.values()].sort((a, b) => b.score - a.score).slice(0, topK);
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { verifyCitations, type RetrievedDocument } from './citations';
+
+const passage = 'Retrieval augmented generation grounds **answers** in retrieved documents… and cites them.';
+
+const retrieved = new Map<string, RetrievedDocument>([
+  ['rag', { documentId: 'rag', title: 'RAG Architectures', score: 0.83, snippet: passage, passages: [passage] }],
+]);
+
+const cite = (snippet: string) =>
+  verifyCitations(
+    { answer: 'RAG grounds answers.', citations: [{ documentId: 'rag', title: 'RAG', score: 1, snippet }] },
+    retrieved,
+  ).citations;
+
+describe('verifyCitations', () => {
+  it('keeps a snippet quoted from the retrieved passage', () => {
+    expect(cite('grounds answers in retrieved documents')).toEqual([
+      { documentId: 'rag', title: 'RAG Architectures', score: 0.83, snippet: 'grounds answers in retrieved documents' },
+    ]);
+  });
+
+  it('replaces a snippet the retrieved passage does not contain', () => {
+    expect(cite('RAG eliminates every hallucination')[0].snippet).toBe(passage);
+  });
+
+  it('reports citations of documents that were not retrieved', () => {
+    const { citations, invalidCitations } = verifyCitations(
+      { answer: '…', citations: [{ documentId: 'other', title: 'Other', score: 1, snippet: 'text' }] },
+      retrieved,
+    );
+
+    expect(citations).toEqual([]);
+    expect(invalidCitations.map((c) => c.documentId)).toEqual(['other']);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Structured citations
+ *
+ * Knowledge agents can answer with a structured response: the answer text
+ * plus the documents it is based on. Citations are checked against what the
+ * search tools actually returned in the same run, so a consumer can render
+ * them as links without trusting the model: citations to documents that
+ * were never retrieved are dropped and reported, and the title and score of
+ * the valid ones come from the search results. A snippet that does not occur
+ * in the retrieved text of its document is replaced with that text.
+ */
+
+import type { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+import { comparableText } from './packing';
+import { searchToolOutputSchema } from './retrieval';
+
+export const citationSchema = z.object({
+  documentId: z.string().describe('documentId of a search result, exactly as returned by the search tool'),
+  title: z.string().describe('Title of the cited document'),
+  score: z.number().describe('Search score of the document'),
+  snippet: z.string().describe('Passage of the document the claim is based on'),
+});
+
+export type Citation = z.infer<typeof citationSchema>;
+
+export const citedAnswerSchema = z.object({
+  answer: z.string().describe('The answer for the user'),
+  citations: z
+    .array(citationSchema)
+    .describe('Documents the answer is based on; empty when no retrieved document was used'),
+});
+
+export type CitedAnswer = z.infer<typeof citedAnswerSchema>;
+
+// Search tool as registered on the knowledge agents (tool key or tool id)
+export const SEARCH_TOOLS = ['searchDocuments', 'search-documents'];
+
+export interface RetrievedDocument {
+  documentId: string;
+  title: string;
+  score: number;
+  /** Passage of the best scored result */
+  snippet: string;
+  /** Passages of every result of the document, to check quotes against */
+  passages: string[];
+}
+
+// Tool name and result of a Mastra `{ payload: { toolName, result } }` chunk
+// or an AI SDK `{ toolName, result }` object
+function toolCallResult(entry: unknown): { toolName?: unknown; result?: unknown } {
+  if (typeof entry !== 'object' || entry === null) return {};
+  if ('payload' in entry && typeof entry.payload === 'object' && entry.payload !== null) {
+    return toolCallResult(entry.payload);
+  }
+  return {
+    toolName: 'toolName' in entry ? entry.toolName : undefined,
+    result: 'result' in entry ? entry.result : undefined,
+  };
+}
+
+/**
+ * Documents returned by the search tools, from the tool results of an agent
+ * run. Results that are not a successful search output are ignored. Keeps
+ * the best score per document.
+ */
+export function retrievedDocuments(toolResults: unknown[]): Map<string, RetrievedDocument> {
+  const documents = new Map<string, RetrievedDocument>();
+
+  for (const entry of toolResults) {
+    const { toolName, result } = toolCallResult(entry);
+    if (typeof toolName !== 'string' || !SEARCH_TOOLS.includes(toolName)) continue;
+    const output = searchToolOutputSchema.safeParse(result);
+    if (!output.success || !output.data.success) continue;
+
+    for (const r of output.data.results) {
+      const score = Number(r.score);
+      const text = r.snippet ?? r.content ?? '';
+      const previous = documents.get(r.documentId);
+      const passages = [...(previous?.passages ?? []), text];
+      if (previous && previous.score >= score) {
+        previous.passages = passages;
+        continue;
+      }
+
+      documents.set(r.documentId, {
+        documentId: r.documentId,
+        title: r.title,
+        score,
+        snippet: text,
+        passages,
+      });
+    }
+  }
+
+  return documents;
+}
+
+// Whether a quote occurs in one of the passages, ignoring highlights, ellipses and case
+function quotedFrom(quote: string, passages: string[]): boolean {
+  const comparable = comparableText(quote);
+  return !!comparable && passages.some((passage) => comparableText(passage).includes(comparable));
+}
+
+/**
+ * Keeps the citations that point to retrieved documents, taking their title
+ * and score from the search results, and reports the others. Snippets the
+ * retrieved passages do not contain are replaced with the retrieved snippet.
+ */
+export function verifyCitations(
+  answer: CitedAnswer,
+  retrieved: Map<string, RetrievedDocument>,
+): CitedAnswer & { invalidCitations: Citation[] } {
+  const citations: Citation[] = [];
+  const invalidCitations: Citation[] = [];
+  const seen = new Set<string>();
+
+  for (const citation of answer.citations) {
+    const document = retrieved.get(citation.documentId);
+    if (!document) {
+      invalidCitations.push(citation);
+      continue;
+    }
+    const snippet = quotedFrom(citation.snippet, document.passages) ? citation.snippet : document.snippet;
+    if (seen.has(`${citation.documentId}\n${snippet}`)) continue;
+    seen.add(`${citation.documentId}\n${snippet}`);
+
+    citations.push({
+      documentId: document.documentId,
+      title: document.title,
+      score: document.score,
+      snippet,
+    });
+  }
+
+  return citedAnswerSchema.extend({ invalidCitations: z.array(citationSchema) }).parse({
+    answer: answer.answer,
+    citations,
+    invalidCitations,
+  });
+}
+
+/**
+ * Instructions added to the knowledge agents' prompts
+ */
+export const citationInstructions = `
+Citations:
+- When a structured response is requested, put the answer text in "answer" and one entry per source in "citations"
+- Each citation must use the documentId, title and score of a search result from this conversation turn, and the snippet the claim is based on
+- Never cite a document the search tools did not return; leave "citations" empty if no retrieved document was used
+`;
+
+type GenerateLegacyOptions = NonNullable<Parameters<Agent['generateLegacy']>[1]>;
+
+/**
+ * Runs a knowledge agent asking for a cited answer, then verifies the
+ * citations against the search results of that run
+ */
+export async function generateWithCitations(
+  agent: Agent<any, any, any>,
+  messages: Parameters<Agent['generateLegacy']>[0],
+  options: Omit<GenerateLegacyOptions, 'output' | 'experimental_output'> = {},
+) {
+  const result = await agent.generateLegacy(messages, {
+    ...options,
+    experimental_output: citedAnswerSchema,
+  } as GenerateLegacyOptions);
+
+  const toolResults: unknown[] = [
+    ...(result.toolResults ?? []),
+    ...(result.steps ?? []).flatMap((step) => step.toolResults ?? []),
+  ];
+  const answer = citedAnswerSchema.parse(result.object);
+
+  return verifyCitations(answer, retrievedDocuments(toolResults));
+}
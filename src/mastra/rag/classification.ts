@@ -0,0 +1,188 @@
+/**
+ * Document classification
+ *
+ * Suggests the category (one of the knowledge base categories) of a
+ * document, with a confidence from 0 to 1, so documents ingested without
+ * one are still scoped and filterable like the rest of the knowledge base.
+ * Classifiers are pluggable (CATEGORY_CLASSIFIER):
+ * - llm: an LLM picks the category, rates its confidence and suggests tags
+ * - centroid: the document embedding is compared with the mean embedding of
+ *   labelled example documents per category (no LLM calls, no tags)
+ *
+ * Suggestions below CATEGORY_MIN_CONFIDENCE (default 0.6) are flagged with
+ * `needsReview`, so a person confirms the category.
+ */
+
+import { openai } from '@ai-sdk/openai';
+import { generateObject, type LanguageModelV1 } from 'ai';
+import { z } from 'zod';
+import {
+  describeCategories,
+  knowledgeCategoryNames,
+  knowledgeCategorySchema,
+  type KnowledgeCategory,
+} from './categories';
+import { cosineSimilarity, embedText, embedTexts } from './embeddings';
+import { sampleDocuments } from './sample-documents';
+
+export type CategoryClassifierName = 'llm' | 'centroid';
+
+// Characters of the document the classifiers read
+const CLASSIFY_CONTENT_LENGTH = 4000;
+
+const MAX_TAGS = 5;
+
+// Softmax temperature turning centroid similarities into a confidence
+const CENTROID_TEMPERATURE = 0.05;
+
+export const minCategoryConfidence = Number(process.env.CATEGORY_MIN_CONFIDENCE ?? 0.6);
+
+export interface ClassifiableDocument {
+  title: string;
+  content: string;
+}
+
+export interface CategorySuggestion {
+  category: KnowledgeCategory;
+  /** 0 to 1 */
+  confidence: number;
+  /** Topic tags; empty when the classifier does not suggest any */
+  tags: string[];
+  classifier: CategoryClassifierName;
+  /** The confidence is below the minimum: a person should confirm the category */
+  needsReview: boolean;
+}
+
+export interface CategoryClassifier {
+  name: CategoryClassifierName;
+  classify(document: ClassifiableDocument): Promise<Pick<CategorySuggestion, 'category' | 'confidence' | 'tags'>>;
+}
+
+/**
+ * Asks an LLM for the category, its confidence and a few tags
+ */
+export function createLlmCategoryClassifier({
+  model = openai(process.env.CLASSIFIER_MODEL || 'gpt-4o-mini'),
+}: { model?: LanguageModelV1 } = {}): CategoryClassifier {
+  return {
+    name: 'llm',
+    async classify({ title, content }) {
+      const { object } = await generateObject({
+        model,
+        schema: z.object({
+          category: knowledgeCategorySchema,
+          confidence: z
+            .number()
+            .min(0)
+            .max(1)
+            .describe('How sure you are of the category: 1 = clearly this category, 0.5 = could be another one'),
+          tags: z.array(z.string()).describe(`Up to ${MAX_TAGS} short topic tags`),
+        }),
+        prompt: `Classify this document for a knowledge base.
+
+Categories:
+${describeCategories()}
+
+Title: ${title}
+
+${content.substring(0, CLASSIFY_CONTENT_LENGTH)}
+
+Pick the single best category, rate your confidence, and give up to ${MAX_TAGS} short tags naming its main topics.`,
+      });
+
+      return {
+        category: object.category,
+        confidence: object.confidence,
+        tags: [...new Set(object.tags.map((tag) => tag.trim()).filter(Boolean))].slice(0, MAX_TAGS),
+      };
+    },
+  };
+}
+
+function classificationText({ title, content }: ClassifiableDocument): string {
+  return `${title}\n${content.substring(0, CLASSIFY_CONTENT_LENGTH)}`;
+}
+
+/**
+ * Compares the document with the mean embedding of the examples of each
+ * category. The confidence is the softmax share of the closest category,
+ * so it drops when two categories are almost as close.
+ */
+export function createCentroidCategoryClassifier({
+  examples = sampleDocuments,
+}: { examples?: (ClassifiableDocument & { category: string })[] } = {}): CategoryClassifier {
+  let centroids: Promise<Map<KnowledgeCategory, number[]>> | undefined;
+
+  const computeCentroids = async () => {
+    const labelled = examples.filter((example) => knowledgeCategoryNames.includes(example.category as KnowledgeCategory));
+    const vectors = await embedTexts(labelled.map(classificationText));
+    const sums = new Map<KnowledgeCategory, { sum: number[]; count: number }>();
+
+    labelled.forEach((example, i) => {
+      const category = example.category as KnowledgeCategory;
+      const entry = sums.get(category) ?? { sum: new Array(vectors[i].length).fill(0), count: 0 };
+      vectors[i].forEach((value, d) => (entry.sum[d] += value));
+      entry.count++;
+      sums.set(category, entry);
+    });
+
+    if (sums.size === 0) throw new Error('The centroid classifier has no labelled examples');
+    return new Map([...sums].map(([category, { sum, count }]) => [category, sum.map((value) => value / count)]));
+  };
+
+  return {
+    name: 'centroid',
+    async classify(document) {
+      // Computed once, on first use; a failed attempt is retried next time
+      centroids ??= computeCentroids().catch((error) => {
+        centroids = undefined;
+        throw error;
+      });
+      const [byCategory, vector] = await Promise.all([centroids, embedText(classificationText(document))]);
+
+      const similarities = [...byCategory].map(([category, centroid]) => ({
+        category,
+        similarity: cosineSimilarity(vector, centroid),
+      }));
+      const best = similarities.reduce((a, b) => (b.similarity > a.similarity ? b : a));
+      const total = similarities.reduce(
+        (sum, { similarity }) => sum + Math.exp((similarity - best.similarity) / CENTROID_TEMPERATURE),
+        0,
+      );
+
+      return { category: best.category, confidence: 1 / total, tags: [] };
+    },
+  };
+}
+
+/**
+ * Builds a classifier from its name (default: llm)
+ */
+export function createCategoryClassifier(name: string | undefined): CategoryClassifier {
+  switch (name || 'llm') {
+    case 'llm':
+      return createLlmCategoryClassifier();
+    case 'centroid':
+      return createCentroidCategoryClassifier();
+    default:
+      throw new Error(`Unknown category classifier '${name}'. Use one of: llm, centroid`);
+  }
+}
+
+let configuredClassifier: CategoryClassifier | undefined;
+
+/**
+ * Suggests a category with the given classifier (by default the one named
+ * by CATEGORY_CLASSIFIER), flagging low-confidence suggestions for review
+ */
+export async function suggestCategory(
+  document: ClassifiableDocument,
+  classifier: CategoryClassifier = (configuredClassifier ??= createCategoryClassifier(process.env.CATEGORY_CLASSIFIER)),
+): Promise<CategorySuggestion> {
+  const suggestion = await classifier.classify(document);
+  return {
+    ...suggestion,
+    classifier: classifier.name,
+    needsReview: suggestion.confidence < minCategoryConfidence,
+  };
+}
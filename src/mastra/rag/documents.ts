@@ -0,0 +1,468 @@
+/**
+ * Document identity and idempotent indexing
+ *
+ * Documents get deterministic IDs, derived from a source key (file path,
+ * record key, ...) or from a hash of their content. Chunks are stored as
+ * `<documentId>_<chunkIndex>`, so indexing the same document again updates
+ * its chunks in place instead of creating copies.
+ *
+ * Every chunk carries two hashes: `contentHash` (the document text, which
+ * decides whether embeddings must be recomputed) and `metadataHash` (title,
+ * category, tags, source, access lists and review flag, which can be
+ * updated without re-embedding).
+ */
+
+import { createHash } from 'node:crypto';
+import type { MastraVector, QueryResult } from '@mastra/core/vector';
+import { chunkDocument, chunkEmbeddingText, type ChunkingOptions, type DocumentChunk } from './chunking';
+import { embedText, embedTexts } from './embeddings';
+import { queryWithFilter } from './filters';
+import { accessMetadata, isRestricted, type DocumentAccess } from './access-control';
+
+// Azure AI Search document keys may only contain letters, digits, '_', '-' and '='
+export const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9_\-=]+$/;
+
+// Chunks inspected when looking up an existing document
+const MAX_CHUNKS_LOOKUP = 1000;
+
+export type DocumentStatus = 'created' | 'updated' | 'unchanged';
+
+export interface DocumentFields extends DocumentAccess {
+  title: string;
+  content: string;
+  category: string;
+  tags?: string[];
+  source?: string;
+  /** The category was classified with low confidence and awaits review */
+  needsReview?: boolean;
+  categoryConfidence?: number;
+}
+
+/**
+ * A document as found in the index, rebuilt from its chunks
+ */
+export interface StoredDocument extends DocumentAccess {
+  documentId: string;
+  title: string;
+  category: string;
+  tags: string[];
+  source?: string;
+  needsReview?: boolean;
+  categoryConfidence?: number;
+  timestamp?: string;
+  chunkCount: number;
+  /** Chunks found in the index, ordered by chunkIndex */
+  chunks: QueryResult[];
+  /** Stored with chunks that predate stable IDs (no parentId) */
+  legacy: boolean;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Deterministic document ID: from the source key when there is one,
+ * otherwise from the title and content.
+ */
+export function documentIdFor(doc: Pick<DocumentFields, 'title' | 'content' | 'source'>): string {
+  const key = doc.source ? `source:${doc.source}` : `content:${doc.title}\n${doc.content}`;
+  return sha256(key).slice(0, 32);
+}
+
+export function contentHashFor(content: string): string {
+  return sha256(content);
+}
+
+export function metadataHashFor(doc: Omit<DocumentFields, 'content'>): string {
+  const fields: unknown[] = [doc.title, doc.category, [...(doc.tags ?? [])].sort(), doc.source ?? null];
+  // Only restricted documents hash their access lists, so public documents keep their hash
+  if (isRestricted(doc)) {
+    fields.push([...(doc.allowedUsers ?? [])].sort(), [...(doc.allowedGroups ?? [])].sort());
+  }
+  if (doc.needsReview) fields.push({ needsReview: true, categoryConfidence: doc.categoryConfidence ?? null });
+  return sha256(JSON.stringify(fields));
+}
+
+export function chunkIdFor(documentId: string, chunkIndex: number): string {
+  return `${documentId}_${chunkIndex}`;
+}
+
+export function assertValidDocumentId(id: string): void {
+  if (!DOCUMENT_ID_PATTERN.test(id)) {
+    throw new Error(
+      `Invalid document ID '${id}': only letters, digits, '_', '-' and '=' are allowed`,
+    );
+  }
+}
+
+function reviewMetadata(doc: Pick<DocumentFields, 'needsReview' | 'categoryConfidence'>) {
+  if (!doc.needsReview) return {};
+  return { needsReview: true, ...(doc.categoryConfidence !== undefined ? { categoryConfidence: doc.categoryConfidence } : {}) };
+}
+
+function documentMetadata(doc: Omit<DocumentFields, 'content'>, timestamp: string) {
+  return {
+    title: doc.title,
+    category: doc.category,
+    tags: doc.tags ?? [],
+    ...(doc.source ? { source: doc.source } : {}),
+    ...accessMetadata(doc),
+    ...reviewMetadata(doc),
+    metadataHash: metadataHashFor(doc),
+    timestamp,
+  };
+}
+
+/**
+ * Splits a document into chunks and builds the vectors' IDs and metadata
+ */
+export function prepareDocument(
+  documentId: string,
+  doc: DocumentFields,
+  chunking?: Partial<ChunkingOptions>,
+  timestamp = new Date().toISOString(),
+) {
+  const chunks = chunkDocument({ parentId: documentId, title: doc.title, content: doc.content }, chunking);
+  return describeChunks(documentId, doc, chunks, timestamp);
+}
+
+/**
+ * Builds the vectors' IDs, embedding texts and metadata of a chunked document
+ */
+export function describeChunks(
+  documentId: string,
+  doc: DocumentFields,
+  chunks: DocumentChunk[],
+  timestamp = new Date().toISOString(),
+) {
+  const contentHash = contentHashFor(doc.content);
+  const metadataHash = metadataHashFor(doc);
+
+  return {
+    contentHash,
+    metadataHash,
+    ids: chunks.map((chunk) => chunkIdFor(documentId, chunk.metadata.chunkIndex)),
+    texts: chunks.map(chunkEmbeddingText),
+    metadata: chunks.map((chunk) => ({
+      ...chunk.metadata,
+      ...documentMetadata(doc, timestamp),
+      content: chunk.text,
+      contentHash,
+    })),
+  };
+}
+
+/**
+ * Rewrites the metadata of existing chunks without touching their vectors
+ */
+export async function updateChunkMetadata(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  ids: string[],
+  metadata: Record<string, any>[],
+): Promise<void> {
+  for (let i = 0; i < ids.length; i++) {
+    await vectorStore.updateVector({ indexName, id: ids[i], update: { metadata: metadata[i] } });
+  }
+}
+
+/**
+ * Removes chunks left over from a previous, longer version of a document
+ */
+export async function deleteStaleChunks(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  documentId: string,
+  fromIndex: number,
+  previousCount: number,
+): Promise<void> {
+  for (let i = fromIndex; i < previousCount; i++) {
+    await vectorStore.deleteVector({ indexName, id: chunkIdFor(documentId, i) });
+  }
+}
+
+function toStoredDocuments(results: QueryResult[]): StoredDocument[] {
+  const byDocument = new Map<string, QueryResult[]>();
+  for (const result of results) {
+    const documentId = result.metadata?.parentId ?? result.id;
+    byDocument.set(documentId, [...(byDocument.get(documentId) ?? []), result]);
+  }
+
+  return [...byDocument.entries()].map(([documentId, chunks]) => {
+    chunks.sort((a, b) => (a.metadata?.chunkIndex ?? 0) - (b.metadata?.chunkIndex ?? 0));
+    const metadata = chunks[0].metadata ?? {};
+    return {
+      documentId,
+      title: metadata.title ?? 'Untitled',
+      category: metadata.category ?? '',
+      tags: metadata.tags ?? [],
+      source: metadata.source,
+      ...accessMetadata(metadata),
+      ...reviewMetadata(metadata),
+      timestamp: metadata.timestamp,
+      chunkCount: metadata.chunkCount ?? chunks.length,
+      chunks,
+      legacy: metadata.parentId === undefined,
+    };
+  });
+}
+
+/**
+ * Finds documents by ID or by exact title.
+ *
+ * The lookup is a filtered vector query probed with the ID or title, so
+ * stores without server-side filtering only see the closest candidates.
+ */
+export async function findDocuments(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  { documentId, title }: { documentId?: string; title?: string },
+): Promise<StoredDocument[]> {
+  if (!documentId && !title) {
+    throw new Error('Provide a document ID or a title to look the document up');
+  }
+
+  const queryVector = await embedText(title ?? documentId!);
+
+  const lookup = (filter: Record<string, unknown>) =>
+    queryWithFilter(vectorStore, {
+      indexName,
+      queryVector,
+      topK: MAX_CHUNKS_LOOKUP,
+      candidateLimit: MAX_CHUNKS_LOOKUP,
+      filter,
+    });
+
+  if (documentId) {
+    const { results } = await lookup({ parentId: documentId });
+    if (results.length > 0) return toStoredDocuments(results);
+
+    // Documents indexed before stable IDs are stored as a single vector
+    const legacy = await lookup({ parentId: { $exists: false } });
+    return toStoredDocuments(legacy.results.filter((r) => r.id === documentId));
+  }
+
+  const { results } = await lookup({ title: title! });
+  return toStoredDocuments(results);
+}
+
+/**
+ * Titles closest to a query, used to suggest alternatives when a title
+ * lookup finds nothing. `accept` leaves out chunks the caller may not see.
+ */
+export async function suggestTitles(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  query: string,
+  limit = 5,
+  accept: (result: QueryResult) => boolean = () => true,
+): Promise<string[]> {
+  const results = await vectorStore.query({ indexName, queryVector: await embedText(query), topK: limit * 4 });
+  return [...new Set(results.filter(accept).map((r) => r.metadata?.title).filter(Boolean))].slice(0, limit);
+}
+
+/**
+ * How a prepared document differs from its indexed version
+ */
+export type DocumentChange = 'new' | 'unchanged' | 'metadata' | 'content';
+
+/** Metadata of the first indexed chunk of a document */
+export type StoredVersion = Record<string, any>;
+
+/**
+ * Looks up the indexed version of a document: a query filtered by parentId,
+ * probed with the vector of `probeText` (the title is enough, so nothing of
+ * the document has to be embedded to tell whether it changed)
+ */
+export async function findStoredVersion(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  documentId: string,
+  probeText: string,
+): Promise<StoredVersion | undefined> {
+  const { results } = await queryWithFilter(vectorStore, {
+    indexName,
+    queryVector: await embedText(probeText),
+    topK: MAX_CHUNKS_LOOKUP,
+    filter: { parentId: documentId },
+  });
+  return results[0]?.metadata;
+}
+
+export function compareWithStored(
+  previous: StoredVersion | undefined,
+  prepared: { ids: string[]; contentHash: string; metadataHash: string },
+): DocumentChange {
+  if (!previous) return 'new';
+  if (previous.contentHash !== prepared.contentHash || previous.chunkCount !== prepared.ids.length) return 'content';
+  return previous.metadataHash === prepared.metadataHash ? 'unchanged' : 'metadata';
+}
+
+/**
+ * Indexes a single document idempotently.
+ *
+ * The stored version of the document is looked up first (see
+ * `findStoredVersion`). Unchanged documents are not written, metadata-only
+ * changes rewrite the chunk metadata, and only content changes embed the
+ * chunks, upsert them under their stable IDs and delete chunks beyond the
+ * new chunk count.
+ */
+export async function indexDocument(
+  vectorStore: MastraVector<any>,
+  {
+    indexName,
+    documentId,
+    document,
+    chunking,
+  }: {
+    indexName: string;
+    documentId?: string;
+    document: DocumentFields;
+    chunking?: Partial<ChunkingOptions>;
+  },
+): Promise<{ documentId: string; status: DocumentStatus; chunkCount: number }> {
+  const id = documentId ?? documentIdFor(document);
+  assertValidDocumentId(id);
+
+  const prepared = prepareDocument(id, document, chunking);
+  if (prepared.ids.length === 0) {
+    throw new Error('Document content is empty');
+  }
+
+  const previous = await findStoredVersion(vectorStore, indexName, id, document.title);
+  return writeDocument(vectorStore, indexName, id, prepared, previous, () => embedTexts(prepared.texts));
+}
+
+/**
+ * Writes a prepared document over its stored version (see `indexDocument`).
+ * `vectors` are the chunk embeddings, or a function computing them, only
+ * called when the content changed.
+ */
+export async function writeDocument(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  documentId: string,
+  prepared: { ids: string[]; metadata: Record<string, any>[]; contentHash: string; metadataHash: string },
+  previous: StoredVersion | undefined,
+  vectors: number[][] | (() => Promise<number[][]>),
+): Promise<{ documentId: string; status: DocumentStatus; chunkCount: number }> {
+  const change = compareWithStored(previous, prepared);
+
+  if (change === 'unchanged') {
+    return { documentId, status: 'unchanged', chunkCount: prepared.ids.length };
+  }
+
+  if (change === 'metadata') {
+    await updateChunkMetadata(vectorStore, indexName, prepared.ids, prepared.metadata);
+    return { documentId, status: 'updated', chunkCount: prepared.ids.length };
+  }
+
+  const embeddings = typeof vectors === 'function' ? await vectors() : vectors;
+  await vectorStore.upsert({ indexName, vectors: embeddings, ids: prepared.ids, metadata: prepared.metadata });
+
+  if (previous) {
+    await deleteStaleChunks(vectorStore, indexName, documentId, prepared.ids.length, previous.chunkCount ?? 0);
+  }
+
+  return {
+    documentId,
+    status: previous ? 'updated' : 'created',
+    chunkCount: prepared.ids.length,
+  };
+}
+
+/**
+ * Applies changes to an indexed document. Embeddings are only recomputed
+ * when the content changes; other fields only rewrite the chunk metadata.
+ */
+export async function updateDocument(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  existing: StoredDocument,
+  changes: Partial<Omit<DocumentFields, 'source'>>,
+  chunking?: Partial<ChunkingOptions>,
+): Promise<{ documentId: string; reembedded: boolean; chunkCount: number }> {
+  if (existing.legacy) {
+    throw new Error(
+      `Document '${existing.documentId}' predates stable IDs; delete it and add it again instead`,
+    );
+  }
+
+  const fields = {
+    title: changes.title ?? existing.title,
+    category: changes.category ?? existing.category,
+    tags: changes.tags ?? existing.tags,
+    source: existing.source,
+    allowedUsers: changes.allowedUsers ?? existing.allowedUsers,
+    allowedGroups: changes.allowedGroups ?? existing.allowedGroups,
+    // Setting the category is the review of a low-confidence classification
+    ...(changes.category === undefined
+      ? { needsReview: existing.needsReview, categoryConfidence: existing.categoryConfidence }
+      : {}),
+  };
+  const timestamp = new Date().toISOString();
+  const contentChanged =
+    changes.content !== undefined &&
+    contentHashFor(changes.content) !== existing.chunks[0]?.metadata?.contentHash;
+
+  if (contentChanged) {
+    const prepared = prepareDocument(
+      existing.documentId,
+      { ...fields, content: changes.content! },
+      chunking,
+      timestamp,
+    );
+    if (prepared.ids.length === 0) throw new Error('Document content is empty');
+
+    const vectors = await embedTexts(prepared.texts);
+    await vectorStore.upsert({ indexName, vectors, ids: prepared.ids, metadata: prepared.metadata });
+    await deleteStaleChunks(
+      vectorStore,
+      indexName,
+      existing.documentId,
+      prepared.ids.length,
+      existing.chunkCount,
+    );
+
+    return { documentId: existing.documentId, reembedded: true, chunkCount: prepared.ids.length };
+  }
+
+  if (existing.chunks.length < existing.chunkCount) {
+    throw new Error(
+      `Only ${existing.chunks.length} of ${existing.chunkCount} chunks of '${existing.title}' could be loaded; ` +
+        'pass the full content to rewrite the document',
+    );
+  }
+
+  await updateChunkMetadata(
+    vectorStore,
+    indexName,
+    existing.chunks.map((chunk) => chunk.id),
+    existing.chunks.map(({ metadata: { allowedUsers, allowedGroups, needsReview, categoryConfidence, ...metadata } = {} }) => ({
+      // Access lists and the review flag are only kept when the new fields still set them
+      ...metadata,
+      ...documentMetadata(fields, timestamp),
+    })),
+  );
+
+  return { documentId: existing.documentId, reembedded: false, chunkCount: existing.chunkCount };
+}
+
+/**
+ * Deletes every chunk of an indexed document
+ */
+export async function deleteDocument(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  existing: StoredDocument,
+): Promise<number> {
+  const ids = existing.legacy
+    ? [existing.documentId]
+    : Array.from({ length: existing.chunkCount }, (_, i) => chunkIdFor(existing.documentId, i));
+
+  for (const id of ids) {
+    await vectorStore.deleteVector({ indexName, id });
+  }
+  return ids.length;
+}
@@ -0,0 +1,233 @@
+/**
+ * Near-duplicate detection
+ *
+ * Before a document is indexed, its first chunk is compared with the chunks
+ * already in the index. Other documents with the same content hash, or whose
+ * chunks are at least `threshold` similar, are reported as duplicates so
+ * the caller can decide what to do with them. The document's own previous
+ * version (same document ID) is not a duplicate, and documents the caller
+ * may not read are left out.
+ *
+ * `findDuplicateClusters` scans a whole index instead: every document is
+ * compared with every other one (by the mean of its chunk vectors), and
+ * documents linked by a similarity of at least `threshold`, directly or
+ * through another document, form a cluster.
+ */
+
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import type { MastraVector } from '@mastra/core/vector';
+import { filterAccessible } from './access-control';
+import { chunkEmbeddingText, collapseChunkHits } from './chunking';
+import { cosineSimilarity, embedText, embedTexts } from './embeddings';
+import { queryWithFilter } from './filters';
+
+export const duplicateThreshold = Number(process.env.DUPLICATE_THRESHOLD ?? 0.95);
+
+// Chunk hits compared against the document
+const DUPLICATE_CANDIDATES = 20;
+
+// Chunks read when scanning a whole index
+export const MAX_SCANNED_CHUNKS = 5000;
+
+/**
+ * Agent instructions for the near-duplicates reported by addDocument.
+ * Replacing or merging into a duplicate is only offered with write access.
+ */
+export function duplicateInstructions(writeAccess: boolean): string {
+  return writeAccess
+    ? `If addDocument reports near-duplicates (duplicatesFound: true), nothing was written yet: show the user the duplicates and ask whether to skip the new document, replace one of them with it, merge both into it (write the merged text yourself) or add it anyway, then call addDocument again with onDuplicate and, for replace or merge, the duplicateId. Replace and merge overwrite the duplicate: describe what will change and wait for the user's explicit confirmation; only then call the tool with confirm: true`
+    : `If addDocument reports near-duplicates (duplicatesFound: true), nothing was written yet: show the user the duplicates and ask whether to skip the new document or add it anyway, then call addDocument again with onDuplicate`;
+}
+
+export interface DuplicateDocument {
+  documentId: string;
+  title: string;
+  category?: string;
+  /** Similarity of the closest chunk */
+  score: number;
+  /** Same content hash: an exact copy */
+  exact: boolean;
+}
+
+export async function findDuplicates(
+  vectorStore: MastraVector<any>,
+  {
+    indexName,
+    documentId,
+    contentHash,
+    queryVector,
+    threshold = duplicateThreshold,
+    runtimeContext,
+    tool,
+  }: {
+    indexName: string;
+    documentId: string;
+    contentHash: string;
+    /** Embedding of the document's first chunk */
+    queryVector: number[];
+    threshold?: number;
+    runtimeContext?: RuntimeContext;
+    /** Reported in the access audit log */
+    tool: string;
+  },
+): Promise<DuplicateDocument[]> {
+  const [similar, exact] = await Promise.all([
+    vectorStore.query({ indexName, queryVector, topK: DUPLICATE_CANDIDATES }),
+    queryWithFilter(vectorStore, { indexName, queryVector, topK: DUPLICATE_CANDIDATES, filter: { contentHash } }),
+  ]);
+
+  const exactIds = new Set(exact.results.map((r) => r.metadata?.parentId ?? r.id));
+  const accessible = await filterAccessible([...exact.results, ...similar], {
+    runtimeContext,
+    metadataOf: (r) => r.metadata,
+    idOf: (r) => r.metadata?.parentId ?? r.id,
+    audit: { tool, indexName },
+  });
+  const hits = collapseChunkHits(accessible, DUPLICATE_CANDIDATES);
+
+  return hits
+    .filter((hit) => hit.documentId !== documentId)
+    .filter((hit) => exactIds.has(hit.documentId) || hit.score >= threshold)
+    .map((hit) => ({
+      documentId: hit.documentId,
+      title: hit.bestChunk.metadata?.title ?? 'Untitled',
+      category: hit.bestChunk.metadata?.category,
+      score: hit.score,
+      exact: exactIds.has(hit.documentId),
+    }));
+}
+
+export interface ClusterDocument {
+  documentId: string;
+  title: string;
+  category?: string;
+  chunkCount: number;
+  timestamp?: string;
+}
+
+export interface DuplicateCluster {
+  documents: ClusterDocument[];
+  /** Document pairs at or above the threshold, most similar first */
+  pairs: { documentIds: [string, string]; score: number; exact: boolean }[];
+}
+
+export interface DuplicateReport {
+  indexName: string;
+  threshold: number;
+  scannedDocuments: number;
+  scannedChunks: number;
+  /** The index has more chunks than were read */
+  truncated: boolean;
+  /** Largest clusters first */
+  clusters: DuplicateCluster[];
+}
+
+interface ScannedDocument extends ClusterDocument {
+  contentHash?: string;
+  vector: number[];
+}
+
+function meanVector(vectors: number[][]): number[] {
+  const sum = new Array(vectors[0].length).fill(0);
+  for (const vector of vectors) vector.forEach((value, d) => (sum[d] += value));
+  return sum.map((value) => value / vectors.length);
+}
+
+/**
+ * Reads the chunks of the index (up to `maxChunks`) and averages them into
+ * one vector per document. Stores that do not return the stored vectors get
+ * the chunks embedded again.
+ */
+async function scanDocuments(vectorStore: MastraVector<any>, indexName: string, maxChunks: number) {
+  // Any vector works as probe: every chunk is read
+  const chunks = await vectorStore.query({
+    indexName,
+    queryVector: await embedText(indexName),
+    topK: maxChunks,
+    includeVector: true,
+  });
+
+  const missing = chunks.filter((chunk) => !chunk.vector?.length);
+  const embedded = await embedTexts(
+    missing.map((chunk) =>
+      chunkEmbeddingText({
+        text: String(chunk.metadata?.content ?? ''),
+        metadata: {
+          parentId: chunk.metadata?.parentId ?? chunk.id,
+          chunkIndex: chunk.metadata?.chunkIndex ?? 0,
+          chunkCount: chunk.metadata?.chunkCount ?? 1,
+          title: chunk.metadata?.title ?? '',
+          heading: chunk.metadata?.heading,
+        },
+      }),
+    ),
+  );
+  const vectorOf = new Map(missing.map((chunk, i) => [chunk, embedded[i]]));
+
+  const byDocument = new Map<string, { document: Omit<ScannedDocument, 'vector'>; vectors: number[][] }>();
+  for (const chunk of chunks) {
+    const documentId = chunk.metadata?.parentId ?? chunk.id;
+    const entry = byDocument.get(documentId) ?? {
+      document: {
+        documentId,
+        title: chunk.metadata?.title ?? 'Untitled',
+        category: chunk.metadata?.category,
+        chunkCount: chunk.metadata?.chunkCount ?? 1,
+        timestamp: chunk.metadata?.timestamp,
+        contentHash: chunk.metadata?.contentHash,
+      },
+      vectors: [] as number[][],
+    };
+    entry.vectors.push(chunk.vector?.length ? chunk.vector : vectorOf.get(chunk)!);
+    byDocument.set(documentId, entry);
+  }
+
+  return {
+    scannedChunks: chunks.length,
+    documents: [...byDocument.values()].map(({ document, vectors }) => ({ ...document, vector: meanVector(vectors) })),
+  };
+}
+
+/**
+ * Groups the documents of an index into clusters of near-duplicates
+ */
+export async function findDuplicateClusters(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  { threshold = duplicateThreshold, maxChunks = MAX_SCANNED_CHUNKS }: { threshold?: number; maxChunks?: number } = {},
+): Promise<DuplicateReport> {
+  const { scannedChunks, documents } = await scanDocuments(vectorStore, indexName, maxChunks);
+
+  // Union-find over the documents linked by a pair
+  const parent = documents.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  const pairs: { a: number; b: number; score: number; exact: boolean }[] = [];
+  for (let a = 0; a < documents.length; a++) {
+    for (let b = a + 1; b < documents.length; b++) {
+      const exact = !!documents[a].contentHash && documents[a].contentHash === documents[b].contentHash;
+      const score = cosineSimilarity(documents[a].vector, documents[b].vector);
+      if (!exact && score < threshold) continue;
+
+      pairs.push({ a, b, score, exact });
+      parent[root(b)] = root(a);
+    }
+  }
+
+  const clusters = new Map<number, DuplicateCluster>();
+  for (const { a, b, score, exact } of pairs.sort((x, y) => y.score - x.score)) {
+    const cluster = clusters.get(root(a)) ?? { documents: [], pairs: [] };
+    cluster.pairs.push({ documentIds: [documents[a].documentId, documents[b].documentId], score, exact });
+    clusters.set(root(a), cluster);
+  }
+  documents.forEach(({ vector, contentHash, ...document }, i) => clusters.get(root(i))?.documents.push(document));
+
+  return {
+    indexName,
+    threshold,
+    scannedDocuments: documents.length,
+    scannedChunks,
+    truncated: scannedChunks >= maxChunks,
+    clusters: [...clusters.values()].sort((x, y) => y.documents.length - x.documents.length),
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Embedding cache
+ *
+ * Embeddings are cached under a key made of the embedding model and the
+ * normalized text (Unicode NFC, whitespace collapsed, trimmed), so a query
+ * repeated in a conversation, or a document chunk indexed again, is not
+ * embedded twice. Two tiers are looked up in order:
+ * - memory: an in-process LRU of EMBEDDING_CACHE_SIZE entries (default 1000,
+ *   0 disables it)
+ * - persistent (optional): a LibSQL table at EMBEDDING_CACHE_URL (e.g.
+ *   file:./embedding-cache.db, or a Turso database with
+ *   EMBEDDING_CACHE_AUTH_TOKEN), shared by the server and the scripts
+ *
+ * Hits and misses of each tier are counted; see `stats()`. The persistent
+ * tier never fails an embedding: its errors are logged and treated as misses.
+ */
+
+import { createHash } from 'node:crypto';
+import { createClient, type Client } from '@libsql/client';
+import { logger } from '../logger';
+
+const DEFAULT_CACHE_SIZE = 1000;
+
+// Keys per SELECT on the persistent tier
+const LOOKUP_BATCH_SIZE = 500;
+
+export interface EmbeddingCacheConfig {
+  /** Entries kept in memory (0 disables the memory tier) */
+  maxEntries: number;
+  /** LibSQL URL of the persistent tier; none when omitted */
+  url?: string;
+  authToken?: string;
+}
+
+export interface EmbeddingCacheStats {
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  /** Share of lookups served from either tier (0 before the first lookup) */
+  hitRate: number;
+  memoryEntries: number;
+  maxEntries: number;
+  persistent: boolean;
+}
+
+export interface EmbeddingCache {
+  /**
+   * Returns the cached embeddings of the texts for the model and embeds the
+   * missing ones with `embedMissing` (called once, with the distinct
+   * normalized texts), caching the result
+   */
+  getOrEmbed(
+    model: string,
+    texts: string[],
+    embedMissing: (texts: string[]) => Promise<number[][]>,
+  ): Promise<number[][]>;
+  stats(): EmbeddingCacheStats;
+  /** Empties the memory tier and resets the counters */
+  clear(): void;
+}
+
+/**
+ * Text as it is cached and embedded
+ */
+export function normalizeEmbeddingText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export function embeddingCacheKey(model: string, normalizedText: string): string {
+  return createHash('sha256').update(`${model}\n${normalizedText}`).digest('hex');
+}
+
+/**
+ * Reads the cache configuration from environment variables
+ */
+export function embeddingCacheConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingCacheConfig {
+  const maxEntries = env.EMBEDDING_CACHE_SIZE ? Number(env.EMBEDDING_CACHE_SIZE) : DEFAULT_CACHE_SIZE;
+  if (!Number.isInteger(maxEntries) || maxEntries < 0) {
+    throw new Error(`EMBEDDING_CACHE_SIZE must be a whole number of entries, got '${env.EMBEDDING_CACHE_SIZE}'`);
+  }
+
+  return {
+    maxEntries,
+    url: env.EMBEDDING_CACHE_URL || undefined,
+    authToken: env.EMBEDDING_CACHE_AUTH_TOKEN,
+  };
+}
+
+/**
+ * Embeddings in a LibSQL table, created on first use
+ */
+function createPersistentTier(client: Client) {
+  let ready: Promise<unknown> | undefined;
+  const init = () =>
+    (ready ??= client
+      .execute(
+        `CREATE TABLE IF NOT EXISTS embedding_cache (
+          key TEXT PRIMARY KEY,
+          model TEXT NOT NULL,
+          embedding TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        )`,
+      )
+      .catch((error) => {
+        ready = undefined;
+        throw error;
+      }));
+
+  return {
+    async get(keys: string[]): Promise<Map<string, number[]>> {
+      await init();
+      const found = new Map<string, number[]>();
+      for (let i = 0; i < keys.length; i += LOOKUP_BATCH_SIZE) {
+        const batch = keys.slice(i, i + LOOKUP_BATCH_SIZE);
+        const { rows } = await client.execute({
+          sql: `SELECT key, embedding FROM embedding_cache WHERE key IN (${batch.map(() => '?').join(', ')})`,
+          args: batch,
+        });
+        for (const row of rows) found.set(String(row.key), JSON.parse(String(row.embedding)));
+      }
+      return found;
+    },
+
+    async set(model: string, entries: [string, number[]][]): Promise<void> {
+      await init();
+      const createdAt = new Date().toISOString();
+      await client.batch(
+        entries.map(([key, embedding]) => ({
+          sql: 'INSERT OR REPLACE INTO embedding_cache (key, model, embedding, created_at) VALUES (?, ?, ?, ?)',
+          args: [key, model, JSON.stringify(embedding), createdAt],
+        })),
+        'write',
+      );
+    },
+  };
+}
+
+export function createEmbeddingCache({ maxEntries, url, authToken }: EmbeddingCacheConfig): EmbeddingCache {
+  // Map iteration order is insertion order: the first key is the least recently used
+  const memory = new Map<string, number[]>();
+  const persistent = url ? createPersistentTier(createClient({ url, authToken })) : undefined;
+  const counters = { memoryHits: 0, persistentHits: 0, misses: 0 };
+
+  const remember = (key: string, embedding: number[]) => {
+    if (maxEntries === 0) return;
+    memory.delete(key);
+    memory.set(key, embedding);
+    if (memory.size > maxEntries) memory.delete(memory.keys().next().value!);
+  };
+
+  return {
+    async getOrEmbed(model, texts, embedMissing) {
+      const keys = texts.map((text) => embeddingCacheKey(model, normalizeEmbeddingText(text)));
+      const found = new Map<string, number[]>();
+
+      for (const key of new Set(keys)) {
+        const embedding = memory.get(key);
+        if (!embedding) continue;
+        remember(key, embedding);
+        found.set(key, embedding);
+      }
+      counters.memoryHits += keys.filter((key) => found.has(key)).length;
+
+      let pending = [...new Set(keys)].filter((key) => !found.has(key));
+      if (persistent && pending.length > 0) {
+        try {
+          const stored = await persistent.get(pending);
+          stored.forEach((embedding, key) => {
+            remember(key, embedding);
+            found.set(key, embedding);
+          });
+          counters.persistentHits += keys.filter((key) => stored.has(key)).length;
+        } catch (error: any) {
+          logger.error(`[embedding-cache] Could not read the persistent cache: ${error.message}`);
+        }
+        pending = pending.filter((key) => !found.has(key));
+      }
+
+      counters.misses += keys.filter((key) => !found.has(key)).length;
+      if (pending.length > 0) {
+        const textOf = new Map(keys.map((key, i) => [key, normalizeEmbeddingText(texts[i])]));
+        const embedded = await embedMissing(pending.map((key) => textOf.get(key)!));
+        const entries = pending.map((key, i) => [key, embedded[i]] as [string, number[]]);
+
+        entries.forEach(([key, embedding]) => {
+          remember(key, embedding);
+          found.set(key, embedding);
+        });
+        await persistent
+          ?.set(model, entries)
+          .catch((error) => logger.error(`[embedding-cache] Could not write the persistent cache: ${error.message}`));
+      }
+
+      return keys.map((key) => found.get(key)!);
+    },
+
+    stats() {
+      const lookups = counters.memoryHits + counters.persistentHits + counters.misses;
+      return {
+        ...counters,
+        hitRate: lookups ? (counters.memoryHits + counters.persistentHits) / lookups : 0,
+        memoryEntries: memory.size,
+        maxEntries,
+        persistent: !!persistent,
+      };
+    },
+
+    clear() {
+      memory.clear();
+      Object.assign(counters, { memoryHits: 0, persistentHits: 0, misses: 0 });
+    },
+  };
+}
+
+// Cache shared by the whole application
+export const embeddingCache = createEmbeddingCache(embeddingCacheConfigFromEnv());
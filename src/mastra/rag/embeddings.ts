@@ -0,0 +1,289 @@
+/**
+ * Embedding providers
+ *
+ * A single provider, selected by configuration, is used by every tool, the
+ * memory agent and the populate script:
+ * - openai: OpenAI embedding models (default: text-embedding-3-small)
+ * - azure-openai: an embedding deployment in Azure OpenAI
+ * - local: a deterministic hashing embedder for offline development and tests
+ *
+ * Environment variables:
+ *   EMBEDDING_PROVIDER      openai | azure-openai | local (default: openai)
+ *   EMBEDDING_MODEL         model id (openai/local) or model behind the Azure deployment
+ *   EMBEDDING_DIMENSION     vector size (positive whole number); required for unknown models
+ *   AZURE_OPENAI_RESOURCE_NAME, AZURE_OPENAI_API_KEY,
+ *   AZURE_OPENAI_EMBEDDING_DEPLOYMENT, AZURE_OPENAI_API_VERSION
+ *
+ * `embedText` and `embedTexts` go through the embedding cache (see
+ * ./embedding-cache), so repeated queries and unchanged chunks are not
+ * embedded again.
+ */
+
+import { createHash } from 'node:crypto';
+import { openai } from '@ai-sdk/openai';
+import { createAzure } from '@ai-sdk/azure';
+import { embed, embedMany, type EmbeddingModel } from 'ai';
+import type { MastraVector } from '@mastra/core/vector';
+import { embeddingCache, type EmbeddingCache } from './embedding-cache';
+
+export type EmbeddingProviderName = 'openai' | 'azure-openai' | 'local';
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model?: string;
+  dimension?: number;
+  azure?: {
+    resourceName?: string;
+    apiKey?: string;
+    deployment?: string;
+    apiVersion?: string;
+  };
+}
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  modelId: string;
+  dimension: number;
+  model: EmbeddingModel<string>;
+  /** Returns a message when the provider is missing required configuration */
+  configurationError(): string | undefined;
+}
+
+// Native dimensions of well-known embedding models
+const knownDimensions: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const DEFAULT_LOCAL_DIMENSION = 384;
+
+/**
+ * Vector size of the model: the configured one, or the native size of a known
+ * model. An invalid or unknown size is returned as an error for
+ * `configurationError()` (with dimension 0) rather than thrown, so a
+ * misconfigured embedder does not stop the application from loading.
+ */
+function resolveDimension(model: string, dimension?: number): { dimension: number; error?: string } {
+  if (dimension !== undefined && !(Number.isInteger(dimension) && dimension > 0)) {
+    return { dimension: 0, error: 'EMBEDDING_DIMENSION must be a positive whole number' };
+  }
+  const resolved = dimension ?? knownDimensions[model];
+  if (!resolved) {
+    return {
+      dimension: 0,
+      error: `Unknown dimension for embedding model '${model}'. Set EMBEDDING_DIMENSION to the vector size it produces.`,
+    };
+  }
+  return { dimension: resolved };
+}
+
+// Only request reduced dimensions when they differ from the native size
+function dimensionsSetting(modelId: string, dimension: number): { dimensions?: number } {
+  return dimension && dimension !== knownDimensions[modelId] ? { dimensions: dimension } : {};
+}
+
+/**
+ * Deterministic embedding model based on feature hashing of word unigrams
+ * and bigrams. It needs no network access and gives lexical (not semantic)
+ * similarity, which is enough for offline development and tests.
+ */
+export function createLocalEmbeddingModel(dimension: number): EmbeddingModel<string> {
+  const embedValue = (value: string): number[] => {
+    const vector = new Array<number>(dimension).fill(0);
+    const words = value.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const hash = createHash('sha256').update(feature).digest();
+      const index = hash.readUInt32BE(0) % dimension;
+      const sign = hash[4] & 1 ? 1 : -1;
+      vector[index] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm === 0 ? vector : vector.map((x) => x / norm);
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'local',
+    modelId: `local-hash-${dimension}`,
+    maxEmbeddingsPerCall: undefined,
+    supportsParallelCalls: true,
+    async doEmbed({ values }) {
+      return { embeddings: values.map(embedValue) };
+    },
+  };
+}
+
+/**
+ * Reads the embedding configuration from environment variables
+ */
+export function embeddingConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingConfig {
+  const provider = (env.EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderName;
+  if (!['openai', 'azure-openai', 'local'].includes(provider)) {
+    throw new Error(
+      `Unsupported EMBEDDING_PROVIDER '${provider}'. Use one of: openai, azure-openai, local.`,
+    );
+  }
+
+  return {
+    provider,
+    model: env.EMBEDDING_MODEL || undefined,
+    dimension: env.EMBEDDING_DIMENSION ? Number(env.EMBEDDING_DIMENSION) : undefined,
+    azure: {
+      resourceName: env.AZURE_OPENAI_RESOURCE_NAME,
+      apiKey: env.AZURE_OPENAI_API_KEY,
+      deployment: env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT,
+      apiVersion: env.AZURE_OPENAI_API_VERSION,
+    },
+  };
+}
+
+/**
+ * Creates the embedding provider described by the configuration
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai': {
+      const modelId = config.model || DEFAULT_OPENAI_MODEL;
+      const { dimension, error } = resolveDimension(modelId, config.dimension);
+      return {
+        name: 'openai',
+        modelId,
+        dimension,
+        model: openai.embedding(modelId, dimensionsSetting(modelId, dimension)),
+        configurationError: () =>
+          error ?? (process.env.OPENAI_API_KEY ? undefined : 'OpenAI API key is not configured'),
+      };
+    }
+
+    case 'azure-openai': {
+      const { resourceName, apiKey, deployment, apiVersion } = config.azure ?? {};
+      const modelId = config.model || deployment || DEFAULT_OPENAI_MODEL;
+      const { dimension, error } = resolveDimension(modelId, config.dimension);
+      const azure = createAzure({ resourceName, apiKey, apiVersion });
+      return {
+        name: 'azure-openai',
+        modelId,
+        dimension,
+        model: azure.embedding(deployment || modelId, dimensionsSetting(modelId, dimension)),
+        configurationError: () =>
+          resourceName && apiKey && deployment
+            ? error
+            : 'Azure OpenAI embeddings require AZURE_OPENAI_RESOURCE_NAME, AZURE_OPENAI_API_KEY and AZURE_OPENAI_EMBEDDING_DEPLOYMENT',
+      };
+    }
+
+    case 'local': {
+      const { dimension, error } = resolveDimension('local', config.dimension ?? DEFAULT_LOCAL_DIMENSION);
+      const model = createLocalEmbeddingModel(dimension);
+      return {
+        name: 'local',
+        modelId: model.modelId,
+        dimension,
+        model,
+        configurationError: () => error,
+      };
+    }
+  }
+}
+
+// Provider shared by the whole application
+export const embeddingProvider = createEmbeddingProvider(embeddingConfigFromEnv());
+
+/**
+ * Identifies the vectors a provider produces (e.g. as an embedding cache key):
+ * the same model at another dimension gives other vectors
+ */
+export function embeddingModelKey(provider: EmbeddingProvider = embeddingProvider): string {
+  return `${provider.name}/${provider.modelId}/${provider.dimension}`;
+}
+
+/**
+ * Embeds a single text (e.g. a search query)
+ */
+export async function embedText(
+  value: string,
+  provider: EmbeddingProvider = embeddingProvider,
+  cache: EmbeddingCache = embeddingCache,
+) {
+  const [embedding] = await cache.getOrEmbed(embeddingModelKey(provider), [value], async ([text]) => {
+    const { embedding } = await embed({ model: provider.model, value: text });
+    return [embedding];
+  });
+  return embedding;
+}
+
+/**
+ * Embeds several texts in one call (e.g. the chunks of a document); only
+ * the texts missing from the cache are sent to the provider
+ */
+export async function embedTexts(
+  values: string[],
+  provider: EmbeddingProvider = embeddingProvider,
+  cache: EmbeddingCache = embeddingCache,
+) {
+  if (values.length === 0) return [];
+  return cache.getOrEmbed(embeddingModelKey(provider), values, async (texts) => {
+    const { embeddings } = await embedMany({ model: provider.model, values: texts });
+    return embeddings;
+  });
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Indexes whose dimension already matched the provider
+const verifiedIndexes = new WeakMap<object, Map<string, number>>();
+
+/**
+ * Fails with a clear error when the index was created for a different
+ * embedding dimension than the one the provider produces. Indexes that do
+ * not exist yet are left to the caller.
+ */
+export async function assertIndexDimension(
+  vectorStore: MastraVector<any>,
+  indexName: string,
+  provider: EmbeddingProvider = embeddingProvider,
+): Promise<void> {
+  const verified = verifiedIndexes.get(vectorStore) ?? new Map<string, number>();
+  verifiedIndexes.set(vectorStore, verified);
+  if (verified.get(indexName) === provider.dimension) return;
+
+  const indexes = await vectorStore.listIndexes();
+  if (!indexes.includes(indexName)) return;
+
+  const { dimension } = await vectorStore.describeIndex({ indexName });
+  if (dimension !== provider.dimension) {
+    throw new Error(
+      `Embedding dimension mismatch for index '${indexName}': the index stores ${dimension}-dimensional vectors but the ` +
+        `'${provider.name}' embedder (${provider.modelId}) produces ${provider.dimension}. ` +
+        `Use an index created for this embedder or change EMBEDDING_PROVIDER/EMBEDDING_MODEL/EMBEDDING_DIMENSION.`,
+    );
+  }
+
+  verified.set(indexName, dimension);
+}
+
+/**
+ * Forgets the verified dimension of an index that was deleted or (re)created,
+ * so the next `assertIndexDimension` checks it again
+ */
+export function forgetIndexDimension(vectorStore: MastraVector<any>, indexName: string): void {
+  verifiedIndexes.get(vectorStore)?.delete(indexName);
+}
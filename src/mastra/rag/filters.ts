@@ -0,0 +1,300 @@
+/**
+ * Metadata filtering for knowledge base searches
+ *
+ * Filters use the Mastra vector filter syntax ($eq, $in, $gte, $and/$or, ...).
+ * Stores that keep metadata as an opaque JSON string cannot evaluate them
+ * server-side, so queries fall back to over-fetching and filtering locally.
+ */
+
+import { z } from 'zod';
+import type { MastraVector, QueryResult } from '@mastra/core/vector';
+import type { VectorFilter } from '@mastra/core/vector/filter';
+import { apiError, isRateLimitError } from './retry';
+
+// Over-fetch settings used when the store cannot filter server-side
+const OVER_FETCH_FACTOR = 5;
+const MAX_OVER_FETCH = 100;
+
+const stringConditionSchema = z.union([
+  z.string(),
+  z
+    .object({
+      $eq: z.string().optional(),
+      $ne: z.string().optional(),
+      $in: z.array(z.string()).optional(),
+      $nin: z.array(z.string()).optional(),
+    })
+    .strict(),
+]);
+
+const tagsConditionSchema = z.union([
+  z.string(),
+  z
+    .object({
+      $eq: z.string().optional(),
+      $in: z.array(z.string()).optional(),
+      $all: z.array(z.string()).optional(),
+      $nin: z.array(z.string()).optional(),
+    })
+    .strict(),
+]);
+
+const rangeConditionSchema = z
+  .object({
+    $gt: z.string().optional(),
+    $gte: z.string().optional(),
+    $lt: z.string().optional(),
+    $lte: z.string().optional(),
+  })
+  .strict();
+
+const fieldFilterSchema = z.object({
+  category: stringConditionSchema.optional().describe('Category equality or { $in: [...] }'),
+  tags: tagsConditionSchema
+    .optional()
+    .describe('Tag contained in the document, or { $in: [...] } / { $all: [...] }'),
+  timestamp: rangeConditionSchema
+    .optional()
+    .describe('ISO 8601 range on the indexing date, e.g. { $gte: "2024-01-01" }'),
+  needsReview: z
+    .boolean()
+    .optional()
+    .describe('true: only documents whose category was classified with low confidence'),
+});
+
+/**
+ * Filter accepted by the search tools. One level of $and/$or is allowed on
+ * top of the field conditions, which keeps the schema usable by LLMs.
+ */
+export const metadataFilterSchema = fieldFilterSchema.extend({
+  $and: z.array(fieldFilterSchema).optional().describe('All conditions must match'),
+  $or: z.array(fieldFilterSchema).optional().describe('At least one condition must match'),
+});
+
+export type MetadataFilter = z.infer<typeof metadataFilterSchema>;
+
+/**
+ * Drops undefined keys and empty logical groups so "no filter" is always
+ * represented as undefined.
+ */
+export function normalizeFilter(filter?: MetadataFilter | VectorFilter): VectorFilter | undefined {
+  if (!filter) return undefined;
+
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+    if ((key === '$and' || key === '$or') && Array.isArray(value)) {
+      const branches = value
+        .map((branch) => normalizeFilter(branch))
+        .filter((branch): branch is NonNullable<VectorFilter> => !!branch);
+      if (branches.length > 0) normalized[key] = branches;
+      continue;
+    }
+    normalized[key] = value;
+  }
+
+  return Object.keys(normalized).length > 0 ? (normalized as VectorFilter) : undefined;
+}
+
+/**
+ * Combines filters with $and, ignoring empty ones.
+ */
+export function combineFilters(
+  ...filters: Array<MetadataFilter | VectorFilter | undefined>
+): VectorFilter | undefined {
+  const parts = filters
+    .map((filter) => normalizeFilter(filter))
+    .filter((filter): filter is NonNullable<VectorFilter> => !!filter);
+
+  if (parts.length === 0) return undefined;
+  if (parts.length === 1) return parts[0];
+  return { $and: parts } as VectorFilter;
+}
+
+function toComparable(value: unknown): string | number | boolean | null {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return value == null ? null : JSON.stringify(value);
+}
+
+function compare(a: unknown, b: unknown): number | undefined {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left === null || right === null) return undefined;
+
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+
+  // ISO timestamps (and plain dates) are compared chronologically
+  const leftTime = typeof left === 'string' ? Date.parse(left) : NaN;
+  const rightTime = typeof right === 'string' ? Date.parse(right) : NaN;
+  if (!Number.isNaN(leftTime) && !Number.isNaN(rightTime)) return leftTime - rightTime;
+
+  return String(left).localeCompare(String(right));
+}
+
+function valueEquals(actual: unknown, expected: unknown): boolean {
+  // Array fields (e.g. tags) match when they contain the expected value
+  if (Array.isArray(actual)) return actual.some((item) => valueEquals(item, expected));
+  return toComparable(actual) === toComparable(expected);
+}
+
+function matchesOperator(actual: unknown, operator: string, operand: unknown): boolean {
+  switch (operator) {
+    case '$eq':
+      return valueEquals(actual, operand);
+    case '$ne':
+      return !valueEquals(actual, operand);
+    case '$gt':
+      return (compare(actual, operand) ?? NaN) > 0;
+    case '$gte':
+      return (compare(actual, operand) ?? NaN) >= 0;
+    case '$lt':
+      return (compare(actual, operand) ?? NaN) < 0;
+    case '$lte':
+      return (compare(actual, operand) ?? NaN) <= 0;
+    case '$in':
+      return Array.isArray(operand) && operand.some((value) => valueEquals(actual, value));
+    case '$nin':
+      return Array.isArray(operand) && !operand.some((value) => valueEquals(actual, value));
+    case '$all':
+      return Array.isArray(operand) && operand.every((value) => valueEquals(actual, value));
+    case '$exists':
+      return (actual !== undefined && actual !== null) === Boolean(operand);
+    case '$regex': {
+      const pattern = operand instanceof RegExp ? operand : new RegExp(String(operand));
+      return typeof actual === 'string' && pattern.test(actual);
+    }
+    case '$not':
+      return !matchesCondition(actual, operand);
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+function matchesCondition(actual: unknown, condition: unknown): boolean {
+  if (
+    condition !== null &&
+    typeof condition === 'object' &&
+    !Array.isArray(condition) &&
+    !(condition instanceof Date) &&
+    !(condition instanceof RegExp)
+  ) {
+    const entries = Object.entries(condition as Record<string, unknown>).filter(
+      ([, operand]) => operand !== undefined,
+    );
+    if (entries.length > 0 && entries.every(([key]) => key.startsWith('$'))) {
+      return entries.every(([operator, operand]) => matchesOperator(actual, operator, operand));
+    }
+  }
+
+  return valueEquals(actual, condition);
+}
+
+/**
+ * Evaluates a Mastra vector filter against a metadata object.
+ */
+export function matchesFilter(
+  metadata: Record<string, any> | undefined,
+  filter?: MetadataFilter | VectorFilter,
+): boolean {
+  if (!filter) return true;
+  const data = metadata ?? {};
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined) return true;
+
+    switch (key) {
+      case '$and':
+        return (condition as VectorFilter[]).every((branch) => matchesFilter(data, branch));
+      case '$or':
+        return (condition as VectorFilter[]).some((branch) => matchesFilter(data, branch));
+      case '$nor':
+        return !(condition as VectorFilter[]).some((branch) => matchesFilter(data, branch));
+      case '$not':
+        return !matchesFilter(data, condition as VectorFilter);
+      default:
+        return matchesCondition(data[key], condition);
+    }
+  });
+}
+
+/**
+ * Detects a store rejecting a filter it cannot evaluate (unknown or
+ * non-filterable field, unsupported operator, invalid filter expression), as
+ * opposed to failures such as timeouts, rate limits or server errors
+ */
+export function isUnsupportedFilterError(error: unknown): boolean {
+  const e = apiError(error);
+  if (!e || isRateLimitError(e)) return false;
+
+  const status = e.statusCode ?? e.status ?? e.response?.status;
+  if (typeof status === 'number' && status !== 400) return false;
+
+  return /filter|operator|invalid expression|not supported|unsupported/i.test(String(e.message ?? ''));
+}
+
+// Remembers which stores rejected server-side filters so we stop retrying
+const serverSideFilterSupport = new WeakMap<object, boolean>();
+
+export interface FilteredQueryParams {
+  indexName: string;
+  queryVector: number[];
+  topK: number;
+  filter?: MetadataFilter | VectorFilter;
+  /** Maximum candidates fetched when filtering client-side */
+  candidateLimit?: number;
+}
+
+export interface FilteredQueryResult {
+  results: QueryResult[];
+  filterMode: 'none' | 'server' | 'client';
+}
+
+/**
+ * Queries the store applying a metadata filter.
+ *
+ * The filter is sent to the store first. If the store rejects it as
+ * unsupported (or returns results that do not match it), the query is
+ * repeated without the filter, over-fetching candidates and filtering them
+ * here instead. Any other error is thrown.
+ */
+export async function queryWithFilter(
+  vectorStore: MastraVector<any>,
+  { indexName, queryVector, topK, filter, candidateLimit = MAX_OVER_FETCH }: FilteredQueryParams,
+): Promise<FilteredQueryResult> {
+  const normalized = normalizeFilter(filter);
+
+  if (!normalized) {
+    const results = await vectorStore.query({ indexName, queryVector, topK });
+    return { results, filterMode: 'none' };
+  }
+
+  if (serverSideFilterSupport.get(vectorStore) !== false) {
+    try {
+      const results = await vectorStore.query({ indexName, queryVector, topK, filter: normalized });
+
+      // A store that silently ignores the filter is treated as unsupported
+      if (results.every((r) => matchesFilter(r.metadata, normalized))) {
+        serverSideFilterSupport.set(vectorStore, true);
+        return { results, filterMode: 'server' };
+      }
+      serverSideFilterSupport.set(vectorStore, false);
+    } catch (error) {
+      if (!isUnsupportedFilterError(error)) throw error;
+      serverSideFilterSupport.set(vectorStore, false);
+    }
+  }
+
+  const candidates = await vectorStore.query({
+    indexName,
+    queryVector,
+    topK: Math.max(Math.min(topK * OVER_FETCH_FACTOR, candidateLimit), topK),
+  });
+
+  return {
+    results: candidates.filter((r) => matchesFilter(r.metadata, normalized)).slice(0, topK),
+    filterMode: 'client',
+  };
+}
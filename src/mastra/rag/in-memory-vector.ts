@@ -0,0 +1,169 @@
+/**
+ * In-memory vector store
+ *
+ * A MastraVector kept entirely in process memory, for offline development
+ * and tests. Vectors are lost when the process exits. Filters are evaluated
+ * locally with the same semantics as the search tools, and keyword search
+ * ranks the stored chunks with BM25.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  MastraVector,
+  type CreateIndexParams,
+  type DeleteIndexParams,
+  type DeleteVectorParams,
+  type DescribeIndexParams,
+  type IndexStats,
+  type QueryResult,
+  type QueryVectorParams,
+  type UpdateVectorParams,
+  type UpsertVectorParams,
+} from '@mastra/core/vector';
+import type { VectorFilter } from '@mastra/core/vector/filter';
+import { matchesFilter } from './filters';
+import { bm25Rank, searchableText, type KeywordQueryParams, type KeywordSearchable } from './keyword-search';
+
+type Metric = NonNullable<IndexStats['metric']>;
+
+interface StoredVector {
+  vector: number[];
+  metadata: Record<string, any>;
+}
+
+interface MemoryIndex {
+  dimension: number;
+  metric: Metric;
+  vectors: Map<string, StoredVector>;
+}
+
+function similarity(metric: Metric, a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+    distance += (a[i] - b[i]) ** 2;
+  }
+
+  switch (metric) {
+    case 'dotproduct':
+      return dot;
+    case 'euclidean':
+      // Higher is closer, like the other metrics
+      return 1 / (1 + Math.sqrt(distance));
+    default:
+      return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+  }
+}
+
+export class InMemoryVector extends MastraVector<VectorFilter> implements KeywordSearchable {
+  private indexes = new Map<string, MemoryIndex>();
+
+  private getIndex(indexName: string): MemoryIndex {
+    const index = this.indexes.get(indexName);
+    if (!index) throw new Error(`Index '${indexName}' does not exist`);
+    return index;
+  }
+
+  private assertDimension(index: MemoryIndex, indexName: string, vector: number[]): void {
+    if (vector.length !== index.dimension) {
+      throw new Error(
+        `Vector dimension ${vector.length} does not match index '${indexName}' dimension ${index.dimension}`,
+      );
+    }
+  }
+
+  async createIndex({ indexName, dimension, metric = 'cosine' }: CreateIndexParams): Promise<void> {
+    if (!Number.isInteger(dimension) || dimension <= 0) {
+      throw new Error('Dimension must be a positive integer');
+    }
+    if (this.indexes.has(indexName)) {
+      await this.validateExistingIndex(indexName, dimension, metric);
+      return;
+    }
+    this.indexes.set(indexName, { dimension, metric, vectors: new Map() });
+  }
+
+  async upsert({ indexName, vectors, metadata, ids }: UpsertVectorParams): Promise<string[]> {
+    const index = this.getIndex(indexName);
+    const vectorIds = ids ?? vectors.map(() => randomUUID());
+
+    vectors.forEach((vector, i) => {
+      this.assertDimension(index, indexName, vector);
+      index.vectors.set(vectorIds[i], { vector: [...vector], metadata: { ...(metadata?.[i] ?? {}) } });
+    });
+
+    return vectorIds;
+  }
+
+  async query({
+    indexName,
+    queryVector,
+    topK = 10,
+    filter,
+    includeVector = false,
+  }: QueryVectorParams<VectorFilter>): Promise<QueryResult[]> {
+    const index = this.getIndex(indexName);
+    this.assertDimension(index, indexName, queryVector);
+
+    return [...index.vectors.entries()]
+      .filter(([, stored]) => matchesFilter(stored.metadata, filter))
+      .map(([id, stored]) => ({
+        id,
+        score: similarity(index.metric, queryVector, stored.vector),
+        metadata: stored.metadata,
+        document: stored.metadata.content,
+        ...(includeVector ? { vector: stored.vector } : {}),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async keywordQuery({ indexName, query, topK, filter }: KeywordQueryParams): Promise<QueryResult[]> {
+    const index = this.getIndex(indexName);
+
+    const candidates: QueryResult[] = [...index.vectors.entries()]
+      .filter(([, stored]) => matchesFilter(stored.metadata, filter))
+      .map(([id, stored]) => ({ id, score: 0, metadata: stored.metadata, document: stored.metadata.content }));
+
+    return bm25Rank(query, candidates, searchableText)
+      .slice(0, topK)
+      .map(({ doc, score }) => ({ ...doc, score }));
+  }
+
+  async listIndexes(): Promise<string[]> {
+    return [...this.indexes.keys()];
+  }
+
+  async describeIndex({ indexName }: DescribeIndexParams): Promise<IndexStats> {
+    const index = this.getIndex(indexName);
+    return { dimension: index.dimension, count: index.vectors.size, metric: index.metric };
+  }
+
+  async deleteIndex({ indexName }: DeleteIndexParams): Promise<void> {
+    this.getIndex(indexName);
+    this.indexes.delete(indexName);
+  }
+
+  async updateVector({ indexName, id, update }: UpdateVectorParams): Promise<void> {
+    const index = this.getIndex(indexName);
+    const stored = index.vectors.get(id);
+    if (!stored) throw new Error(`Vector '${id}' not found in index '${indexName}'`);
+
+    if (update.vector) {
+      this.assertDimension(index, indexName, update.vector);
+      stored.vector = [...update.vector];
+    }
+    if (update.metadata) {
+      stored.metadata = { ...update.metadata };
+    }
+  }
+
+  async deleteVector({ indexName, id }: DeleteVectorParams): Promise<void> {
+    this.getIndex(indexName).vectors.delete(id);
+  }
+}
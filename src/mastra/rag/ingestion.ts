@@ -0,0 +1,228 @@
+/**
+ * Batched, resumable document ingestion
+ *
+ * Documents are processed in batches: every batch is chunked, embedded with
+ * a single embedding call and written with a single upsert. Rate-limited
+ * calls are retried with exponential backoff, and a local checkpoint file
+ * records the hashes of every indexed document per store, index and
+ * embedding model (a new index starts with an empty checkpoint, see
+ * `resetCheckpoint`), so a rerun skips unchanged
+ * documents, only rewrites metadata when just the metadata changed, and
+ * re-embeds documents whose content changed, in place (documents have
+ * stable IDs, see documents.ts). Chunks are embedded through the embedding
+ * cache, so with a persistent cache, indexing unchanged chunks again (into
+ * a new index, or without a checkpoint) makes no embedding calls.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { MastraVector } from '@mastra/core/vector';
+import type { ChunkingOptions } from './chunking';
+import { embeddingModelKey, embedTexts } from './embeddings';
+import { deleteStaleChunks, documentIdFor, prepareDocument, updateChunkMetadata } from './documents';
+import { withRetry, type RetryOptions } from './retry';
+import { vectorStoreLocation } from './vector-store';
+
+export const DEFAULT_CHECKPOINT_PATH = '.data/ingest-checkpoint.json';
+export const DEFAULT_BATCH_SIZE = 16;
+
+export interface IngestDocument {
+  title: string;
+  content: string;
+  category: string;
+  tags?: string[];
+  /** Where the document comes from (e.g. a file path); also the key for its stable ID */
+  source?: string;
+  /** Users and groups allowed to read the document; public when both are empty */
+  allowedUsers?: string[];
+  allowedGroups?: string[];
+  /** The category was classified with low confidence and awaits review */
+  needsReview?: boolean;
+  categoryConfidence?: number;
+  /** Per-document chunking settings, merged over the ingestion defaults */
+  chunking?: Partial<ChunkingOptions>;
+}
+
+export interface IngestOptions {
+  indexName: string;
+  /** Documents per embedding call and upsert */
+  batchSize?: number;
+  chunking?: Partial<ChunkingOptions>;
+  /** Checkpoint file location; `false` disables checkpointing */
+  checkpointPath?: string | false;
+  /** Store holding the index, part of the checkpoint key (default: the configured store) */
+  storeLocation?: string;
+  /** Forgets what the checkpoint recorded for the index first, e.g. when the index was just created */
+  resetCheckpoint?: boolean;
+  retry?: RetryOptions;
+  onBatch?: (progress: { batch: number; totalBatches: number; documents: number; chunks: number }) => void;
+  onBatchError?: (info: { batch: number; error: unknown }) => void;
+}
+
+export interface IngestSummary {
+  created: string[];
+  updated: string[];
+  /** Unchanged since the last run */
+  skipped: string[];
+  failed: { title: string; error: string }[];
+  chunks: number;
+}
+
+interface CheckpointEntry {
+  title: string;
+  contentHash: string;
+  metadataHash: string;
+  chunkCount: number;
+  indexedAt: string;
+}
+
+interface Checkpoint {
+  version: 4;
+  /** Target (see checkpointKey) -> document ID -> last indexed version */
+  targets: Record<string, Record<string, CheckpointEntry>>;
+}
+
+// The same index name in another store, or embedded by another model, is another target
+function checkpointKey(storeLocation: string, indexName: string): string {
+  return [storeLocation, indexName, embeddingModelKey()].join('|');
+}
+
+async function loadCheckpoint(path: string | false): Promise<Checkpoint> {
+  const empty: Checkpoint = { version: 4, targets: {} };
+  if (!path) return empty;
+
+  try {
+    const data = JSON.parse(await readFile(path, 'utf8'));
+    return data?.version === 4 ? data : empty;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return empty;
+    throw new Error(`Could not read checkpoint file '${path}': ${error.message}`);
+  }
+}
+
+async function saveCheckpoint(path: string | false, checkpoint: Checkpoint): Promise<void> {
+  if (!path) return;
+
+  // Write to a temporary file first so an interrupted run never leaves a corrupt checkpoint
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(`${path}.tmp`, JSON.stringify(checkpoint, null, 2));
+  await rename(`${path}.tmp`, path);
+}
+
+/**
+ * Chunks, embeds and upserts documents in batches
+ */
+export async function ingestDocuments(
+  vectorStore: MastraVector<any>,
+  documents: IngestDocument[],
+  {
+    indexName,
+    batchSize = DEFAULT_BATCH_SIZE,
+    chunking,
+    checkpointPath = DEFAULT_CHECKPOINT_PATH,
+    storeLocation = vectorStoreLocation(),
+    resetCheckpoint = false,
+    retry,
+    onBatch,
+    onBatchError,
+  }: IngestOptions,
+): Promise<IngestSummary> {
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Batch size must be a positive integer, got ${batchSize}`);
+  }
+
+  const summary: IngestSummary = { created: [], updated: [], skipped: [], failed: [], chunks: 0 };
+  const checkpoint = await loadCheckpoint(checkpointPath);
+  const key = checkpointKey(storeLocation, indexName);
+  if (resetCheckpoint) checkpoint.targets[key] = {};
+  const indexed = (checkpoint.targets[key] ??= {});
+  const timestamp = new Date().toISOString();
+
+  const seen = new Set<string>();
+
+  const pending = documents.flatMap((doc) => {
+    const documentId = documentIdFor(doc);
+
+    // The same document listed twice in one run is only indexed once
+    if (seen.has(documentId)) {
+      summary.skipped.push(doc.title);
+      return [];
+    }
+    seen.add(documentId);
+
+    const prepared = prepareDocument(documentId, doc, { ...chunking, ...doc.chunking }, timestamp);
+    const previous = indexed[documentId];
+
+    const sameContent =
+      previous?.contentHash === prepared.contentHash && previous?.chunkCount === prepared.ids.length;
+
+    if (sameContent && previous?.metadataHash === prepared.metadataHash) {
+      summary.skipped.push(doc.title);
+      return [];
+    }
+    return [{ doc, documentId, previous, sameContent, ...prepared }];
+  });
+
+  const totalBatches = Math.ceil(pending.length / batchSize);
+
+  for (let batch = 0; batch < totalBatches; batch++) {
+    const docs = pending.slice(batch * batchSize, (batch + 1) * batchSize);
+    // Documents of the batch written completely, in order
+    let completed = 0;
+
+    try {
+      // Documents whose content is unchanged only need their metadata rewritten
+      const reembed = docs.filter((doc) => !doc.sameContent);
+      const texts = reembed.flatMap((doc) => doc.texts);
+
+      if (texts.length > 0) {
+        const embeddings = await withRetry(() => embedTexts(texts), retry);
+        await withRetry(
+          () =>
+            vectorStore.upsert({
+              indexName,
+              vectors: embeddings,
+              ids: reembed.flatMap((doc) => doc.ids),
+              metadata: reembed.flatMap((doc) => doc.metadata),
+            }),
+          retry,
+        );
+      }
+
+      for (const { doc, documentId, previous, sameContent, ids, metadata, contentHash, metadataHash } of docs) {
+        if (sameContent) {
+          await withRetry(() => updateChunkMetadata(vectorStore, indexName, ids, metadata), retry);
+        } else if (previous) {
+          await withRetry(
+            () => deleteStaleChunks(vectorStore, indexName, documentId, ids.length, previous.chunkCount),
+            retry,
+          );
+        }
+
+        indexed[documentId] = {
+          title: doc.title,
+          contentHash,
+          metadataHash,
+          chunkCount: ids.length,
+          indexedAt: timestamp,
+        };
+        (previous ? summary.updated : summary.created).push(doc.title);
+        if (!sameContent) summary.chunks += ids.length;
+        completed++;
+      }
+      await saveCheckpoint(checkpointPath, checkpoint);
+
+      onBatch?.({ batch: batch + 1, totalBatches, documents: docs.length, chunks: texts.length });
+    } catch (error: any) {
+      // Keep going: the failed documents are retried on the next run, those
+      // completed before the error are kept in the checkpoint
+      onBatchError?.({ batch: batch + 1, error });
+      for (const { doc } of docs.slice(completed)) {
+        summary.failed.push({ title: doc.title, error: error?.message ?? String(error) });
+      }
+      if (completed > 0 && completed < docs.length) await saveCheckpoint(checkpointPath, checkpoint);
+    }
+  }
+
+  return summary;
+}
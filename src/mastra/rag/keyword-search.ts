@@ -0,0 +1,320 @@
+/**
+ * Keyword search and hybrid ranking
+ *
+ * Vector search misses exact product names, error codes and acronyms, so
+ * searches can also rank documents by keywords:
+ * - Azure AI Search full-text search (BM25) when the store is Azure-backed
+ * - stores exposing their own `keywordQuery` (e.g. local implementations)
+ * - otherwise a local BM25 ranking over a pool of vector candidates
+ *
+ * Hybrid search merges the vector and keyword rankings with reciprocal rank
+ * fusion (RRF), keeping both component scores for debugging.
+ */
+
+import { AzureKeyCredential, SearchClient } from '@azure/search-documents';
+import type { MastraVector, QueryResult } from '@mastra/core/vector';
+import type { VectorFilter } from '@mastra/core/vector/filter';
+import { logger } from '../logger';
+import { matchesFilter, queryWithFilter } from './filters';
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+// Constant of the RRF formula 1 / (k + rank); 60 is the usual default
+const RRF_K = 60;
+
+// Candidates ranked locally when the store has no keyword search
+const LOCAL_KEYWORD_CANDIDATES = 100;
+
+const STOPWORDS = new Set(
+  'a an and are as at be by for from how in is it of on or that the this to what when where which who why with'.split(' '),
+);
+
+export interface KeywordQueryParams {
+  indexName: string;
+  query: string;
+  topK: number;
+  filter?: VectorFilter;
+}
+
+/**
+ * Optional capability of a vector store: native keyword search
+ */
+export interface KeywordSearchable {
+  keywordQuery(params: KeywordQueryParams): Promise<QueryResult[]>;
+}
+
+export interface RankedResult extends QueryResult {
+  vectorScore?: number;
+  vectorRank?: number;
+  keywordScore?: number;
+  keywordRank?: number;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}\-_.]*[\p{L}\p{N}]|[\p{L}\p{N}]/gu) ?? []).filter(
+    (token) => !STOPWORDS.has(token),
+  );
+}
+
+/**
+ * Text of a result used for keyword matching
+ */
+export function searchableText(result: QueryResult): string {
+  const metadata = result.metadata ?? {};
+  return [metadata.title, result.document ?? metadata.content, ...(metadata.tags ?? [])]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Okapi BM25 over an in-memory collection. Returns the matching documents
+ * ordered by score (documents without any query term are left out).
+ */
+export function bm25Rank<T>(
+  query: string,
+  documents: T[],
+  text: (doc: T) => string,
+  { k1 = 1.2, b = 0.75 }: { k1?: number; b?: number } = {},
+): { doc: T; score: number }[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0 || documents.length === 0) return [];
+
+  const tokenized = documents.map((doc) => tokenize(text(doc)));
+  const avgLength = tokenized.reduce((sum, tokens) => sum + tokens.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const term of terms) {
+    documentFrequency.set(term, tokenized.filter((tokens) => tokens.includes(term)).length);
+  }
+
+  return documents
+    .map((doc, i) => {
+      const tokens = tokenized[i];
+      const score = terms.reduce((sum, term) => {
+        const frequency = tokens.filter((token) => token === term).length;
+        if (frequency === 0) return sum;
+        const df = documentFrequency.get(term)!;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        return sum + (idf * frequency * (k1 + 1)) / (frequency + k1 * (1 - b + (b * tokens.length) / avgLength));
+      }, 0);
+      return { doc, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Full-text search against an Azure AI Search index (BM25 on the server).
+ * Metadata stored as a JSON string is parsed back into an object.
+ */
+export function createAzureKeywordSearch({
+  endpoint,
+  credential,
+  searchFields,
+}: {
+  endpoint: string;
+  credential: string;
+  searchFields?: string[];
+}): KeywordSearchable['keywordQuery'] {
+  const clients = new Map<string, SearchClient<Record<string, any>>>();
+
+  return async ({ indexName, query, topK, filter }) => {
+    let client = clients.get(indexName);
+    if (!client) {
+      client = new SearchClient<Record<string, any>>(endpoint, indexName, new AzureKeyCredential(credential));
+      clients.set(indexName, client);
+    }
+
+    // Filters are evaluated here, so over-fetch when there is one
+    const { results } = await client.search(query, {
+      top: filter ? Math.min(topK * 5, LOCAL_KEYWORD_CANDIDATES) : topK,
+      searchMode: 'any',
+      queryType: 'simple',
+      ...(searchFields?.length ? { searchFields } : {}),
+    });
+
+    const hits: QueryResult[] = [];
+    for await (const result of results) {
+      const { id, metadata, content, document } = result.document;
+      const parsed = typeof metadata === 'string' ? JSON.parse(metadata) : (metadata ?? {});
+      hits.push({ id, score: result.score, metadata: parsed, document: content ?? document ?? parsed.content });
+    }
+
+    return hits.filter((hit) => matchesFilter(hit.metadata, filter)).slice(0, topK);
+  };
+}
+
+function isKeywordSearchable(store: unknown): store is KeywordSearchable {
+  return typeof (store as KeywordSearchable)?.keywordQuery === 'function';
+}
+
+/**
+ * Keyword search with the best backend available for the store.
+ *
+ * `azureKeywordQuery` is used when given; failures there (e.g. no
+ * searchable text fields in the index) are logged and fall back to the
+ * local ranking, with the failure reported in `error`.
+ */
+export async function keywordSearch(
+  vectorStore: MastraVector<any>,
+  params: KeywordQueryParams & { queryVector?: number[] },
+  azureKeywordQuery?: KeywordSearchable['keywordQuery'],
+): Promise<{ results: QueryResult[]; backend: 'store' | 'azure' | 'local'; error?: string }> {
+  const { queryVector, ...query } = params;
+
+  if (isKeywordSearchable(vectorStore)) {
+    return { results: await vectorStore.keywordQuery(query), backend: 'store' };
+  }
+
+  let azureError: string | undefined;
+  if (azureKeywordQuery) {
+    try {
+      return { results: await azureKeywordQuery(query), backend: 'azure' };
+    } catch (error: any) {
+      azureError = `Azure keyword search failed: ${error?.message ?? String(error)}`;
+      logger.error(`[keyword-search] ${azureError}; ranking vector candidates locally`, { indexName: query.indexName });
+    }
+  }
+
+  if (!queryVector) {
+    throw new Error('Keyword search on this store needs a query vector to collect candidates');
+  }
+
+  const { results: candidates } = await queryWithFilter(vectorStore, {
+    indexName: query.indexName,
+    queryVector,
+    topK: LOCAL_KEYWORD_CANDIDATES,
+    filter: query.filter,
+  });
+
+  const ranked = bm25Rank(query.query, candidates, searchableText).slice(0, query.topK);
+  return {
+    results: ranked.map(({ doc, score }) => ({ ...doc, score })),
+    backend: 'local',
+    ...(azureError ? { error: azureError } : {}),
+  };
+}
+
+/**
+ * Merges rankings with reciprocal rank fusion. The fused score is
+ * sum(1 / (k + rank)); component scores and ranks are kept on each result.
+ */
+export function reciprocalRankFusion(
+  vectorResults: QueryResult[],
+  keywordResults: QueryResult[],
+  topK: number,
+  k = RRF_K,
+): RankedResult[] {
+  const fused = new Map<string, RankedResult>();
+
+  vectorResults.forEach((result, i) => {
+    fused.set(result.id, {
+      ...result,
+      score: 1 / (k + i + 1),
+      vectorScore: result.score,
+      vectorRank: i + 1,
+    });
+  });
+
+  keywordResults.forEach((result, i) => {
+    const existing = fused.get(result.id);
+    const contribution = 1 / (k + i + 1);
+    fused.set(result.id, {
+      ...(existing ?? result),
+      score: (existing?.score ?? 0) + contribution,
+      keywordScore: result.score,
+      keywordRank: i + 1,
+    });
+  });
+
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+/**
+ * Merges several rankings of the same kind (e.g. the results of each
+ * rewritten query) with reciprocal rank fusion. Each result keeps the
+ * fields of its best-ranked occurrence.
+ */
+export function fuseRankings<T extends QueryResult>(rankings: T[][], topK: number, k = RRF_K): T[] {
+  const fused = new Map<string, { result: T; bestRank: number; score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((result, i) => {
+      const existing = fused.get(result.id);
+      fused.set(result.id, {
+        result: existing && existing.bestRank <= i ? existing.result : result,
+        bestRank: Math.min(existing?.bestRank ?? i, i),
+        score: (existing?.score ?? 0) + 1 / (k + i + 1),
+      });
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ result, score }) => ({ ...result, score }));
+}
+
+/**
+ * Runs a search in the given mode. Each ranking fetches `topK` candidates;
+ * hybrid mode fuses both rankings with RRF and keeps the component scores.
+ * `keywordError` reports a keyword backend that failed over to the local
+ * ranking.
+ */
+export async function hybridSearch(
+  vectorStore: MastraVector<any>,
+  {
+    indexName,
+    query,
+    queryVector,
+    topK,
+    filter,
+    mode,
+    azureKeywordQuery,
+  }: {
+    indexName: string;
+    query: string;
+    queryVector: number[];
+    topK: number;
+    filter?: VectorFilter;
+    mode: SearchMode;
+    azureKeywordQuery?: KeywordSearchable['keywordQuery'];
+  },
+): Promise<{
+  results: RankedResult[];
+  filterMode?: 'none' | 'server' | 'client';
+  keywordBackend?: 'store' | 'azure' | 'local';
+  keywordError?: string;
+}> {
+  const vector =
+    mode === 'keyword'
+      ? undefined
+      : await queryWithFilter(vectorStore, { indexName, queryVector, topK, filter });
+
+  const keyword =
+    mode === 'vector'
+      ? undefined
+      : await keywordSearch(vectorStore, { indexName, query, topK, filter, queryVector }, azureKeywordQuery);
+
+  if (mode === 'vector') {
+    return {
+      results: vector!.results.map((r, i) => ({ ...r, vectorScore: r.score, vectorRank: i + 1 })),
+      filterMode: vector!.filterMode,
+    };
+  }
+
+  if (mode === 'keyword') {
+    return {
+      results: keyword!.results.map((r, i) => ({ ...r, keywordScore: r.score, keywordRank: i + 1 })),
+      keywordBackend: keyword!.backend,
+      ...(keyword!.error ? { keywordError: keyword!.error } : {}),
+    };
+  }
+
+  return {
+    results: reciprocalRankFusion(vector!.results, keyword!.results, topK),
+    filterMode: vector!.filterMode,
+    keywordBackend: keyword!.backend,
+    ...(keyword!.error ? { keywordError: keyword!.error } : {}),
+  };
+}
@@ -0,0 +1,430 @@
+/**
+ * Local file loaders for ingestion
+ *
+ * Turns files into documents for the populate script. Supported formats:
+ * - .md / .markdown: optional YAML front-matter (title, category, tags, allowedUsers, allowedGroups)
+ * - .txt: plain text, titled after the file name
+ * - .json / .jsonl: one or more records, fields mapped to id/title/content/category/tags/allowedUsers/allowedGroups
+ * - .csv: one document per row, columns mapped the same way
+ * - .html / .htm: text content, with <title>, <meta name="keywords"> and <meta name="category">
+ *
+ * A source can be a file, a directory (scanned recursively) or a glob such
+ * as `docs/**\/*.md`. Documents record their file as a path relative to the
+ * root directory (default: the current directory), so `./docs/a.md`,
+ * `docs/a.md` and its absolute path give the same stable document ID.
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, extname, join, relative, resolve, sep } from 'node:path';
+import type { IngestDocument } from './ingestion';
+import type { DocumentAccess } from './access-control';
+import { isKnowledgeCategory, unknownCategoryError } from './categories';
+import { suggestCategory, type CategoryClassifier } from './classification';
+
+export const supportedExtensions = ['.md', '.markdown', '.txt', '.json', '.jsonl', '.csv', '.html', '.htm'];
+
+export interface FieldMap {
+  /** Stable record key; falls back to the record position */
+  id: string;
+  title: string;
+  content: string;
+  category: string;
+  tags: string;
+  allowedUsers: string;
+  allowedGroups: string;
+}
+
+export interface LoaderOptions {
+  /** Category for documents that do not declare one */
+  defaultCategory?: string;
+  /** Classifies documents that declare no category (when there is no default) */
+  classifier?: CategoryClassifier;
+  /** Field/column names used for JSON, JSONL and CSV records */
+  fieldMap?: Partial<FieldMap>;
+  /** Access lists for documents that do not declare any */
+  defaultAccess?: DocumentAccess;
+  /** Directory the recorded file paths are relative to (default: the current directory) */
+  root?: string;
+}
+
+export interface LoadResult {
+  documents: IngestDocument[];
+  errors: { source: string; error: string }[];
+}
+
+const defaultFieldMap: FieldMap = {
+  id: 'id',
+  title: 'title',
+  content: 'content',
+  category: 'category',
+  tags: 'tags',
+  allowedUsers: 'allowedUsers',
+  allowedGroups: 'allowedGroups',
+};
+
+type DraftDocument = Omit<IngestDocument, 'category'> & { category?: string };
+
+// ---------------------------------------------------------------------------
+// File discovery
+// ---------------------------------------------------------------------------
+
+const GLOB_CHARS = /[*?[{]/;
+
+function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches any number of directories, including none
+      regex += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      const options = pattern.slice(i + 1, end).split(',');
+      regex += `(?:${options.map((option) => option.replace(/[.+^$()|\\]/g, '\\$&')).join('|')})`;
+      i = end;
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      regex += pattern.slice(i, end + 1);
+      i = end;
+    } else {
+      regex += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries
+      .filter((entry) => !entry.name.startsWith('.') && entry.name !== 'node_modules')
+      .map((entry) => {
+        const path = join(dir, entry.name);
+        return entry.isDirectory() ? walk(path) : Promise.resolve(entry.isFile() ? [path] : []);
+      }),
+  );
+  return files.flat();
+}
+
+/**
+ * Resolves a file, directory or glob into the list of supported files
+ */
+export async function resolveSourceFiles(source: string): Promise<string[]> {
+  const isSupported = (file: string) => supportedExtensions.includes(extname(file).toLowerCase());
+
+  if (!GLOB_CHARS.test(source)) {
+    const info = await stat(source);
+    if (info.isFile()) return [source];
+    return (await walk(source)).filter(isSupported).sort();
+  }
+
+  // Walk from the static part of the glob and match the rest
+  const normalized = source.split(sep).join('/');
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstGlob).join('/') || '.';
+  const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+
+  return (await walk(base))
+    .filter((file) => matcher.test(relative(base, file).split(sep).join('/')))
+    .filter(isSupported)
+    .sort();
+}
+
+// ---------------------------------------------------------------------------
+// Parsers
+// ---------------------------------------------------------------------------
+
+function parseTags(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(String).map((tag) => tag.trim()).filter(Boolean);
+  if (typeof value === 'string' && value.trim()) {
+    return value
+      .split(/[;,|]/)
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  return undefined;
+}
+
+function parseScalar(value: string): string | string[] {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    return trimmed
+      .slice(1, -1)
+      .split(',')
+      .map((item) => item.trim().replace(/^["']|["']$/g, ''))
+      .filter(Boolean);
+  }
+  return trimmed.replace(/^["']|["']$/g, '');
+}
+
+/**
+ * Minimal YAML front-matter parser: `key: value`, inline lists (`[a, b]`)
+ * and block lists (`- item`) are enough for title, category and tags.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, string | string[]>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, string | string[]> = {};
+  let currentKey: string | undefined;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && currentKey) {
+      const list = Array.isArray(data[currentKey]) ? (data[currentKey] as string[]) : [];
+      list.push(String(parseScalar(item[1])));
+      data[currentKey] = list;
+      continue;
+    }
+
+    const pair = /^([\w-]+)\s*:\s*(.*)$/.exec(line);
+    if (pair) {
+      currentKey = pair[1];
+      data[currentKey] = pair[2].trim() ? parseScalar(pair[2]) : [];
+    }
+  }
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+/**
+ * Parses CSV (RFC 4180: quoted fields, escaped quotes, newlines inside quotes)
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) => r.some((cell) => cell.trim()));
+  if (!header) return [];
+  return records.map((record) =>
+    Object.fromEntries(header.map((column, i) => [column.trim(), record[i] ?? ''])),
+  );
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function htmlMeta(html: string, name: string): string | undefined {
+  const tag = new RegExp(`<meta[^>]+name=["']${name}["'][^>]*>`, 'i').exec(html)?.[0];
+  const content = tag && /content=["']([^"']*)["']/i.exec(tag)?.[1];
+  return content ? decodeEntities(content) : undefined;
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|head)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6]|tr|section|article)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' '),
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+function titleFromPath(path: string): string {
+  return basename(path, extname(path)).replace(/[-_]+/g, ' ').trim();
+}
+
+function fromRecord(
+  record: Record<string, unknown>,
+  fields: FieldMap,
+  path: string,
+  // 1-based, like the line numbers of .jsonl files
+  position: number,
+): DraftDocument {
+  // The source doubles as the document key, so prefer an explicit record ID over its position
+  const key = record[fields.id];
+  const source = `${path}#${typeof key === 'string' || typeof key === 'number' ? key : position}`;
+
+  const content = record[fields.content];
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error(`Record has no '${fields.content}' text`);
+  }
+
+  const title = record[fields.title];
+  const category = record[fields.category];
+
+  return {
+    title: typeof title === 'string' && title.trim() ? title.trim() : titleFromPath(path),
+    content,
+    category: typeof category === 'string' && category.trim() ? category.trim() : undefined,
+    tags: parseTags(record[fields.tags]),
+    allowedUsers: parseTags(record[fields.allowedUsers]),
+    allowedGroups: parseTags(record[fields.allowedGroups]),
+    source,
+  };
+}
+
+/**
+ * The file as recorded in `source`: relative to the root, with forward slashes
+ */
+export function sourcePathFor(file: string, root: string = process.cwd()): string {
+  return relative(resolve(root), resolve(file)).split(sep).join('/');
+}
+
+async function parseFile(file: string, fields: FieldMap, root?: string): Promise<DraftDocument[]> {
+  const text = await readFile(file, 'utf8');
+  const path = sourcePathFor(file, root);
+  const extension = extname(path).toLowerCase();
+
+  switch (extension) {
+    case '.md':
+    case '.markdown': {
+      const { data, body } = parseFrontMatter(text);
+      const heading = /^#\s+(.+)$/m.exec(body)?.[1]?.trim();
+      return [
+        {
+          title: (typeof data.title === 'string' && data.title) || heading || titleFromPath(path),
+          content: body.trim(),
+          category: typeof data.category === 'string' ? data.category : undefined,
+          tags: parseTags(data.tags),
+          allowedUsers: parseTags(data.allowedUsers),
+          allowedGroups: parseTags(data.allowedGroups),
+          source: path,
+          chunking: { strategy: 'markdown' },
+        },
+      ];
+    }
+
+    case '.txt':
+      return [{ title: titleFromPath(path), content: text.trim(), source: path }];
+
+    case '.json': {
+      const data = JSON.parse(text);
+      const records: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.documents) ? data.documents : [data];
+      return records.map((record, i) => fromRecord(record as Record<string, unknown>, fields, path, i + 1));
+    }
+
+    case '.jsonl':
+      return text
+        .split(/\r?\n/)
+        .map((line, i) => ({ line: line.trim(), i }))
+        .filter(({ line }) => line)
+        .map(({ line, i }) => fromRecord(JSON.parse(line), fields, path, i + 1));
+
+    case '.csv':
+      return parseCsv(text).map((record, i) => fromRecord(record, fields, path, i + 1));
+
+    case '.html':
+    case '.htm': {
+      const title =
+        /<title[^>]*>([\s\S]*?)<\/title>/i.exec(text)?.[1] ?? /<h1[^>]*>([\s\S]*?)<\/h1>/i.exec(text)?.[1];
+      return [
+        {
+          title: title ? htmlToText(title) : titleFromPath(path),
+          content: htmlToText(text),
+          category: htmlMeta(text, 'category'),
+          tags: parseTags(htmlMeta(text, 'keywords')),
+          source: path,
+        },
+      ];
+    }
+
+    default:
+      throw new Error(`Unsupported file type '${extension}'`);
+  }
+}
+
+/**
+ * Loads every supported file matched by the source into documents. Files
+ * that cannot be parsed are reported in `errors` instead of aborting.
+ */
+export async function loadDocuments(source: string, options: LoaderOptions = {}): Promise<LoadResult> {
+  const fields = { ...defaultFieldMap, ...options.fieldMap };
+  const result: LoadResult = { documents: [], errors: [] };
+
+  for (const file of await resolveSourceFiles(source)) {
+    try {
+      for (const draft of await parseFile(file, fields, options.root)) {
+        if (!draft.content.trim()) {
+          result.errors.push({ source: draft.source ?? file, error: 'Document is empty' });
+          continue;
+        }
+
+        let category = draft.category || options.defaultCategory;
+        let classification: Pick<IngestDocument, 'tags' | 'needsReview' | 'categoryConfidence'> = {};
+        if (!category && options.classifier) {
+          const suggestion = await suggestCategory(draft, options.classifier);
+          category = suggestion.category;
+          classification = {
+            tags: draft.tags ?? (suggestion.tags.length ? suggestion.tags : undefined),
+            needsReview: suggestion.needsReview,
+            categoryConfidence: suggestion.confidence,
+          };
+        }
+        if (!category) {
+          result.errors.push({
+            source: draft.source ?? file,
+            error: 'No category found; declare one in the file, pass --category or --classify',
+          });
+          continue;
+        }
+        if (!isKnowledgeCategory(category)) {
+          result.errors.push({ source: draft.source ?? file, error: unknownCategoryError(category) });
+          continue;
+        }
+
+        const declaresAccess = draft.allowedUsers?.length || draft.allowedGroups?.length;
+        result.documents.push({
+          ...draft,
+          ...(declaresAccess ? {} : options.defaultAccess),
+          ...classification,
+          category,
+        });
+      }
+    } catch (error: any) {
+      result.errors.push({ source: file, error: error?.message ?? String(error) });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,168 @@
+/**
+ * Context budget packing
+ *
+ * Whole passages of large documents can overflow the model's context window.
+ * Packing fits the formatted search results into a token budget:
+ * - results are taken in relevance order
+ * - a result whose passage repeats one already packed (same text, or
+ *   contained in it) is dropped as a duplicate
+ * - a result that fits is kept whole; one that does not is cut down to a
+ *   snippet around the query terms filling the rest of the budget, or dropped
+ *   when less than MIN_SNIPPET_TOKENS would be left for its passage
+ *
+ * Tokens are estimated from characters (about 4 per token for English with
+ * OpenAI tokenizers), including the result's metadata as the model sees it
+ * in the tool output (JSON).
+ *
+ * The budget is set per agent from its model's context window, see
+ * `contextBudgetFor`.
+ */
+
+// Characters per token, on average
+const CHARS_PER_TOKEN = 4;
+
+// Smallest passage worth keeping when a result has to be cut
+const MIN_SNIPPET_TOKENS = 40;
+
+// Cut passages are shortened by this factor until they fit
+const SHRINK_FACTOR = 0.8;
+
+// Share of the model's context window given to search results by default
+const CONTEXT_SHARE = 0.05;
+
+// Default budgets stay below this, however large the context window
+const MAX_DEFAULT_BUDGET = 16_000;
+
+// Context window assumed for models missing from MODEL_CONTEXT_WINDOWS
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+// Context windows (tokens) by model ID prefix; the longest matching prefix wins
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128_000,
+  'gpt-4o-mini': 128_000,
+  'gpt-4.1': 1_047_576,
+  'gpt-4-turbo': 128_000,
+  'gpt-4': 8_192,
+  'gpt-3.5-turbo': 16_385,
+  o1: 200_000,
+  o3: 200_000,
+  'o4-mini': 200_000,
+};
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Token budget of an agent's search results: `configured` (e.g. an
+ * environment variable; 0 disables packing) or a share of the model's
+ * context window. Undefined when packing is disabled.
+ */
+export function contextBudgetFor(modelId: string, configured?: string): number | undefined {
+  if (configured) {
+    const budget = Number(configured);
+    if (!Number.isInteger(budget) || budget < 0) {
+      throw new Error(`Context budget must be a whole number of tokens, got '${configured}'`);
+    }
+    return budget || undefined;
+  }
+
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter((key) => modelId.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  const contextWindow = prefix ? MODEL_CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOW;
+  return Math.min(MAX_DEFAULT_BUDGET, Math.floor(contextWindow * CONTEXT_SHARE));
+}
+
+export interface PackCandidate {
+  documentId: string;
+  title: string;
+  [field: string]: unknown;
+}
+
+export interface PackedDocument {
+  documentId: string;
+  title: string;
+  tokens: number;
+}
+
+export interface PackingReport {
+  budget: number;
+  usedTokens: number;
+  /** Results whose passage was cut to fit, with the tokens of the whole result */
+  truncated: (PackedDocument & { originalTokens: number })[];
+  /** Results left out, as duplicates or for lack of budget */
+  dropped: (PackedDocument & { reason: 'duplicate' | 'budget' })[];
+}
+
+/**
+ * Passage as compared for duplicates (and quotes): no highlight marks,
+ * ellipses or case
+ */
+export function comparableText(text: string): string {
+  return text
+    .replace(/\*\*|…/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Packs `results` (in relevance order) into `budget` tokens. `field` names
+ * the passage of a result (e.g. content or snippet); `shorten` cuts it to
+ * about `maxChars` characters.
+ */
+export function packResults<T extends PackCandidate>(
+  results: T[],
+  { budget, field, shorten }: { budget: number; field: string; shorten: (result: T, maxChars: number) => string },
+): { results: (T & { truncated?: true })[]; report: PackingReport } {
+  const packed: (T & { truncated?: true })[] = [];
+  const packedTexts: string[] = [];
+  const report: PackingReport = { budget, usedTokens: 0, truncated: [], dropped: [] };
+  const resultTokens = (result: T) => estimateTokens(JSON.stringify(result));
+
+  for (const result of results) {
+    const { documentId, title } = result;
+    const tokens = resultTokens(result);
+    const comparable = comparableText(String(result[field] ?? ''));
+    if (comparable && packedTexts.some((text) => text.includes(comparable))) {
+      report.dropped.push({ documentId, title, tokens, reason: 'duplicate' });
+      continue;
+    }
+
+    const remaining = budget - report.usedTokens;
+    if (tokens <= remaining) {
+      packed.push(result);
+      packedTexts.push(comparable);
+      report.usedTokens += tokens;
+      continue;
+    }
+
+    // What is left for the passage once the rest of the result is counted
+    const available = remaining - resultTokens({ ...result, [field]: '', truncated: true });
+    let cut: (T & { truncated: true }) | undefined;
+    for (
+      let maxChars = available * CHARS_PER_TOKEN;
+      maxChars >= MIN_SNIPPET_TOKENS * CHARS_PER_TOKEN;
+      maxChars = Math.floor(maxChars * SHRINK_FACTOR)
+    ) {
+      const candidate = { ...result, [field]: shorten(result, maxChars), truncated: true as const };
+      if (resultTokens(candidate) <= remaining) {
+        cut = candidate;
+        break;
+      }
+    }
+
+    if (!cut) {
+      report.dropped.push({ documentId, title, tokens, reason: 'budget' });
+      continue;
+    }
+    const cutTokens = resultTokens(cut);
+    packed.push(cut);
+    packedTexts.push(comparableText(String(cut[field])));
+    report.usedTokens += cutTokens;
+    report.truncated.push({ documentId, title, tokens: cutTokens, originalTokens: tokens });
+  }
+
+  return { results: packed, report };
+}
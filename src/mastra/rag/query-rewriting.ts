@@ -0,0 +1,178 @@
+/**
+ * Query rewriting
+ *
+ * Follow-up questions ("what about the quantum one?") only make sense with
+ * the conversation before them. A rewriter turns the query and the recent
+ * turns into a standalone question, then, depending on the strategy,
+ * derives more queries to search with:
+ * - standalone: the standalone question only
+ * - multi-query: the standalone question plus a few paraphrases
+ * - hyde: the standalone question plus a hypothetical answer, whose
+ *   embedding is searched with (HyDE: answers look more like the indexed
+ *   passages than questions do)
+ *
+ * The retrieval service searches with every query and fuses the rankings
+ * (see ./retrieval).
+ */
+
+import { openai } from '@ai-sdk/openai';
+import type { MastraMemory } from '@mastra/core/memory';
+import { generateObject, type LanguageModelV1 } from 'ai';
+import { z } from 'zod';
+
+export const queryRewriteStrategySchema = z.enum(['none', 'standalone', 'multi-query', 'hyde']);
+
+export type QueryRewriteStrategy = z.infer<typeof queryRewriteStrategySchema>;
+
+// Conversation turns given to the rewriter
+export const CONVERSATION_TURNS = 6;
+
+// Characters kept per conversation turn
+const TURN_LENGTH = 500;
+
+const DEFAULT_PARAPHRASES = 3;
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface RewrittenQuery {
+  /** Text searched by keywords, and embedded unless `embeddingText` is set */
+  text: string;
+  /** Text embedded instead of `text` (HyDE answer) */
+  embeddingText?: string;
+  kind: 'original' | 'standalone' | 'paraphrase' | 'hypothetical-answer';
+}
+
+export interface QueryRewrite {
+  strategy: Exclude<QueryRewriteStrategy, 'none'>;
+  standaloneQuery: string;
+  /** Queries to search with, the standalone question first */
+  queries: RewrittenQuery[];
+}
+
+export interface QueryRewriter {
+  rewrite(params: {
+    query: string;
+    conversation: ConversationTurn[];
+    strategy: Exclude<QueryRewriteStrategy, 'none'>;
+  }): Promise<QueryRewrite>;
+}
+
+function formatConversation(conversation: ConversationTurn[]): string {
+  return conversation.map(({ role, text }) => `${role}: ${text.substring(0, TURN_LENGTH)}`).join('\n');
+}
+
+/**
+ * Asks an LLM for the standalone question and, by strategy, paraphrases or
+ * a hypothetical answer
+ */
+export function createLlmQueryRewriter({
+  model = openai(process.env.QUERY_REWRITER_MODEL || 'gpt-4o-mini'),
+  paraphrases = DEFAULT_PARAPHRASES,
+}: { model?: LanguageModelV1; paraphrases?: number } = {}): QueryRewriter {
+  return {
+    async rewrite({ query, conversation, strategy }) {
+      const { object } = await generateObject({
+        model,
+        schema: z.object({
+          standaloneQuery: z
+            .string()
+            .describe('The query rewritten as a self-contained search question, resolving references to the conversation'),
+          paraphrases: z
+            .array(z.string())
+            .describe(strategy === 'multi-query' ? `${paraphrases} different phrasings of the standalone question` : 'Leave empty'),
+          hypotheticalAnswer: z
+            .string()
+            .describe(
+              strategy === 'hyde'
+                ? 'A short passage (3-5 sentences) that a knowledge base document answering the question could contain'
+                : 'Leave empty',
+            ),
+        }),
+        prompt: `Rewrite a search query for a knowledge base.
+
+Recent conversation:
+${formatConversation(conversation) || '(none)'}
+
+Query: ${query}
+
+Rewrite the query as a standalone question that can be understood without the conversation, keeping its language. Do not add facts that are not in the conversation.`,
+      });
+
+      const standaloneQuery = object.standaloneQuery.trim() || query;
+      const queries: RewrittenQuery[] = [{ text: standaloneQuery, kind: 'standalone' }];
+
+      if (strategy === 'multi-query') {
+        const distinct = [...new Set(object.paraphrases.map((p) => p.trim()).filter(Boolean))];
+        queries.push(
+          ...distinct
+            .filter((p) => p.toLowerCase() !== standaloneQuery.toLowerCase())
+            .slice(0, paraphrases)
+            .map((text) => ({ text, kind: 'paraphrase' as const })),
+        );
+      }
+      if (strategy === 'hyde' && object.hypotheticalAnswer.trim()) {
+        queries.push({ text: standaloneQuery, embeddingText: object.hypotheticalAnswer.trim(), kind: 'hypothetical-answer' });
+      }
+
+      return { strategy, standaloneQuery, queries };
+    },
+  };
+}
+
+/**
+ * Reads a strategy name from configuration (default: none)
+ */
+export function parseQueryRewriteStrategy(name: string | undefined): QueryRewriteStrategy {
+  const parsed = queryRewriteStrategySchema.safeParse(name || 'none');
+  if (!parsed.success) {
+    throw new Error(`Unknown query rewrite strategy '${name}'. Use one of: ${queryRewriteStrategySchema.options.join(', ')}`);
+  }
+  return parsed.data;
+}
+
+let defaultRewriter: QueryRewriter | undefined;
+
+/**
+ * Rewriter used when an agent does not configure one (LLM, QUERY_REWRITER_MODEL)
+ */
+export function defaultQueryRewriter(): QueryRewriter {
+  return (defaultRewriter ??= createLlmQueryRewriter());
+}
+
+function messageText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part: { type?: string; text?: string } | null) => (part?.type === 'text' ? part.text : ''))
+      .filter(Boolean)
+      .join(' ');
+  }
+  return '';
+}
+
+/**
+ * Last user and assistant turns of the thread, oldest first
+ */
+export async function recentConversation({
+  memory,
+  threadId,
+  resourceId,
+  turns = CONVERSATION_TURNS,
+}: {
+  memory?: MastraMemory;
+  threadId?: string;
+  resourceId?: string;
+  turns?: number;
+}): Promise<ConversationTurn[]> {
+  if (!memory || !threadId) return [];
+
+  const { messages } = await memory.query({ threadId, resourceId, selectBy: { last: turns * 2 } });
+  return messages
+    .filter((message) => message.role === 'user' || message.role === 'assistant')
+    .map((message) => ({ role: message.role as ConversationTurn['role'], text: messageText(message.content).trim() }))
+    .filter((turn) => turn.text)
+    .slice(-turns);
+}
@@ -0,0 +1,205 @@
+/**
+ * Reranking of search candidates
+ *
+ * Searches can retrieve more candidates than they return and let a reranker
+ * pick the best `topK`. Rerankers are pluggable:
+ * - keyword: share of the query terms found in the candidate (no API calls)
+ * - llm: an LLM judges the relevance of every candidate to the query
+ * - azure-semantic: the Azure AI Search semantic ranker, restricted to the
+ *   candidate IDs (needs a semantic configuration on the index)
+ */
+
+import { AzureKeyCredential, SearchClient } from '@azure/search-documents';
+import { openai } from '@ai-sdk/openai';
+import { generateObject, type LanguageModelV1 } from 'ai';
+import { z } from 'zod';
+import { tokenize } from './keyword-search';
+import { vectorStoreConfig } from './vector-store';
+
+export type RerankerName = 'none' | 'keyword' | 'llm' | 'azure-semantic';
+
+export interface RerankCandidate {
+  /** Vector ID of the candidate (chunk ID) */
+  id: string;
+  title: string;
+  text: string;
+}
+
+export interface Reranker {
+  name: Exclude<RerankerName, 'none'>;
+  /**
+   * Returns one relevance score per candidate, in the candidates' order
+   * (higher is more relevant)
+   */
+  score(params: { query: string; indexName: string; candidates: RerankCandidate[] }): Promise<number[]>;
+}
+
+export interface RerankedItem<T> {
+  item: T;
+  rerankScore: number;
+  /** 1-based position before reranking */
+  originalPosition: number;
+}
+
+// Characters of each candidate shown to the LLM judge
+const LLM_SNIPPET_LENGTH = 800;
+
+/**
+ * Scores candidates by the share of distinct query terms they contain;
+ * title matches count double
+ */
+export function createKeywordOverlapReranker(): Reranker {
+  return {
+    name: 'keyword',
+    async score({ query, candidates }) {
+      const terms = [...new Set(tokenize(query))];
+      if (terms.length === 0) return candidates.map(() => 0);
+
+      return candidates.map((candidate) => {
+        const title = new Set(tokenize(candidate.title));
+        const text = new Set(tokenize(candidate.text));
+        const matched = terms.reduce(
+          (sum, term) => sum + (title.has(term) ? 2 : text.has(term) ? 1 : 0),
+          0,
+        );
+        return matched / (terms.length * 2);
+      });
+    },
+  };
+}
+
+/**
+ * Asks an LLM to grade every candidate from 0 (irrelevant) to 10 (answers
+ * the query), in a single call
+ */
+export function createLlmReranker({
+  model = openai(process.env.RERANKER_MODEL || 'gpt-4o-mini'),
+}: { model?: LanguageModelV1 } = {}): Reranker {
+  return {
+    name: 'llm',
+    async score({ query, candidates }) {
+      if (candidates.length === 0) return [];
+
+      const passages = candidates
+        .map((c, i) => `[${i}] ${c.title}\n${c.text.substring(0, LLM_SNIPPET_LENGTH)}`)
+        .join('\n\n');
+
+      const { object } = await generateObject({
+        model,
+        schema: z.object({
+          scores: z.array(
+            z.object({
+              index: z.number().int().describe('Index of the passage'),
+              relevance: z.number().min(0).max(10).describe('0 = irrelevant, 10 = fully answers the query'),
+            }),
+          ),
+        }),
+        prompt: `Rate how relevant each passage is to the search query.
+
+Query: ${query}
+
+Passages:
+${passages}
+
+Return one score for every passage index.`,
+      });
+
+      const scores = candidates.map(() => 0);
+      for (const { index, relevance } of object.scores) {
+        if (index >= 0 && index < scores.length) scores[index] = relevance / 10;
+      }
+      return scores;
+    },
+  };
+}
+
+/**
+ * Reranks with the Azure AI Search semantic ranker. The query is run as a
+ * semantic query filtered to the candidate IDs; candidates the ranker does
+ * not return score 0.
+ */
+export function createAzureSemanticReranker({
+  endpoint = vectorStoreConfig.azure.endpoint || '',
+  credential = vectorStoreConfig.azure.credential || '',
+  configurationName = process.env.AZURE_AI_SEARCH_SEMANTIC_CONFIGURATION,
+}: { endpoint?: string; credential?: string; configurationName?: string } = {}): Reranker {
+  const clients = new Map<string, SearchClient<Record<string, any>>>();
+
+  return {
+    name: 'azure-semantic',
+    async score({ query, indexName, candidates }) {
+      if (candidates.length === 0) return [];
+
+      let client = clients.get(indexName);
+      if (!client) {
+        client = new SearchClient<Record<string, any>>(endpoint, indexName, new AzureKeyCredential(credential));
+        clients.set(indexName, client);
+      }
+
+      const { results } = await client.search(query, {
+        queryType: 'semantic',
+        semanticSearchOptions: configurationName ? { configurationName } : {},
+        filter: `search.in(id, '${candidates.map((c) => c.id).join(',')}', ',')`,
+        top: candidates.length,
+        select: ['id'],
+      });
+
+      const scores = new Map<string, number>();
+      for await (const result of results) {
+        // The semantic ranker scores from 0 to 4
+        scores.set(result.document.id, (result.rerankerScore ?? 0) / 4);
+      }
+      return candidates.map((c) => scores.get(c.id) ?? 0);
+    },
+  };
+}
+
+/**
+ * Builds a reranker from its name, e.g. from an agent's configuration.
+ * Returns undefined for 'none' or an empty name.
+ */
+export function createReranker(name: string | undefined): Reranker | undefined {
+  switch (name || 'none') {
+    case 'none':
+      return undefined;
+    case 'keyword':
+      return createKeywordOverlapReranker();
+    case 'llm':
+      return createLlmReranker();
+    case 'azure-semantic':
+      if (vectorStoreConfig.provider !== 'azure-ai-search') {
+        throw new Error('The azure-semantic reranker needs VECTOR_STORE_PROVIDER=azure-ai-search');
+      }
+      return createAzureSemanticReranker();
+    default:
+      throw new Error(`Unknown reranker '${name}'. Use one of: none, keyword, llm, azure-semantic`);
+  }
+}
+
+/**
+ * Scores the candidates with the reranker and keeps the best `topK`.
+ * Ties keep their original order.
+ */
+export async function rerank<T>(
+  reranker: Reranker,
+  {
+    query,
+    indexName,
+    items,
+    topK,
+    toCandidate,
+  }: {
+    query: string;
+    indexName: string;
+    items: T[];
+    topK: number;
+    toCandidate: (item: T) => RerankCandidate;
+  },
+): Promise<RerankedItem<T>[]> {
+  const scores = await reranker.score({ query, indexName, candidates: items.map(toCandidate) });
+
+  return items
+    .map((item, i) => ({ item, rerankScore: scores[i] ?? 0, originalPosition: i + 1 }))
+    .sort((a, b) => b.rerankScore - a.rerankScore || a.originalPosition - b.originalPosition)
+    .slice(0, topK);
+}
@@ -0,0 +1,113 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { knowledgeCategoryNames } from './categories';
+import { embeddingProvider, embedTexts } from './embeddings';
+import { ingestDocuments } from './ingestion';
+import { createRetriever, searchRequestSchema } from './retrieval';
+import { sampleDocuments } from './sample-documents';
+import { createVectorStore } from './vector-store';
+
+const BUDGET_INDEX = 'budget-check';
+const CONTEXT_BUDGET = 300;
+
+const search = (retriever: ReturnType<typeof createRetriever>, maxTokens?: number) =>
+  retriever.search(searchRequestSchema.parse({ query: 'modern research', indexName: BUDGET_INDEX, topK: 5, maxTokens }), {
+    tool: 'search-documents',
+  });
+
+describe('context budget', () => {
+  beforeAll(async () => {
+    const vectorStore = createVectorStore('knowledge-base');
+    await vectorStore.createIndex({ indexName: BUDGET_INDEX, dimension: embeddingProvider.dimension, metric: 'cosine' });
+    const summary = await ingestDocuments(vectorStore, sampleDocuments, { indexName: BUDGET_INDEX, checkpointPath: false });
+    expect(summary.failed).toEqual([]);
+  });
+
+  it('caps maxTokens at the agent budget', async () => {
+    const { packing } = await search(createRetriever({ contextBudget: CONTEXT_BUDGET }), 100_000);
+
+    expect(packing?.budget).toBe(CONTEXT_BUDGET);
+    expect(packing?.usedTokens).toBeLessThanOrEqual(CONTEXT_BUDGET);
+  });
+
+  it('lets maxTokens lower the agent budget', async () => {
+    const { packing } = await search(createRetriever({ contextBudget: CONTEXT_BUDGET }), 120);
+
+    expect(packing?.budget).toBe(120);
+  });
+
+  it('uses maxTokens when the agent has no budget', async () => {
+    const { packing } = await search(createRetriever(), 100_000);
+
+    expect(packing?.budget).toBe(100_000);
+  });
+});
+
+describe('category scope', () => {
+  const SCOPE_INDEX = 'scope-check';
+  const legacyNote = 'Legacy note about lighthouse maintenance schedules';
+
+  beforeAll(async () => {
+    const vectorStore = createVectorStore('knowledge-base');
+    await vectorStore.createIndex({ indexName: SCOPE_INDEX, dimension: embeddingProvider.dimension, metric: 'cosine' });
+    await ingestDocuments(vectorStore, sampleDocuments, { indexName: SCOPE_INDEX, checkpointPath: false });
+    // Indexed without a category, like documents from before the taxonomy
+    await vectorStore.upsert({
+      indexName: SCOPE_INDEX,
+      vectors: await embedTexts([legacyNote]),
+      ids: ['legacy-note'],
+      metadata: [{ parentId: 'legacy-note', title: legacyNote, content: legacyNote }],
+    });
+  });
+
+  const titles = async (retriever: ReturnType<typeof createRetriever>) =>
+    (
+      await retriever.search(searchRequestSchema.parse({ query: legacyNote, indexName: SCOPE_INDEX, topK: 3 }), {
+        tool: 'search-documents',
+      })
+    ).results.map((r) => r.title);
+
+  it('leaves uncategorized documents out of an agent listing every category', async () => {
+    expect(await titles(createRetriever({ categories: knowledgeCategoryNames }))).not.toContain(legacyNote);
+  });
+
+  it('finds uncategorized documents without a category scope', async () => {
+    expect(await titles(createRetriever())).toContain(legacyNote);
+  });
+});
+
+describe('access control', () => {
+  const ACCESS_INDEX = 'access-check';
+  const query = 'quarterly board minutes';
+
+  beforeAll(async () => {
+    process.env.ACCESS_AUDIT_LOG = join(tmpdir(), 'retrieval-test-audit.log');
+    const vectorStore = createVectorStore('knowledge-base');
+    await vectorStore.createIndex({ indexName: ACCESS_INDEX, dimension: embeddingProvider.dimension, metric: 'cosine' });
+    await ingestDocuments(vectorStore, sampleDocuments, { indexName: ACCESS_INDEX, checkpointPath: false });
+    // Restricted documents matching the query better than any readable one
+    const restricted = Array.from({ length: 10 }, (_, i) => `${query} ${i}`);
+    await vectorStore.upsert({
+      indexName: ACCESS_INDEX,
+      vectors: await embedTexts(restricted),
+      ids: restricted.map((_, i) => `restricted-${i}`),
+      metadata: restricted.map((text, i) => ({
+        parentId: `restricted-${i}`,
+        title: text,
+        content: text,
+        allowedUsers: ['board-member'],
+      })),
+    });
+  });
+
+  it('fills topK with readable documents when restricted ones rank first', async () => {
+    const { results } = await createRetriever().search(
+      searchRequestSchema.parse({ query, indexName: ACCESS_INDEX, topK: 3 }),
+      { tool: 'search-documents' },
+    );
+
+    expect(results).toHaveLength(3);
+    expect(results.map((r) => r.documentId).filter((id) => id.startsWith('restricted-'))).toEqual([]);
+  });
+});
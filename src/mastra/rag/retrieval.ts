@@ -0,0 +1,497 @@
+/**
+ * Retrieval service
+ *
+ * The one search path behind the knowledge base search tool:
+ * rewrite the query (optional) → embed → retrieve (vector, keyword or
+ * hybrid, restricted by the metadata filter and the agent's categories) →
+ * drop documents the caller may not read (retrieving more candidates when
+ * too many are dropped) → collapse chunks into documents →
+ * personalize with the user profile → rerank → format → pack into the
+ * agent's token budget (see ./packing).
+ *
+ * With a rewrite strategy (see ./query-rewriting), the query is rewritten
+ * with the recent conversation into a standalone question, and possibly
+ * paraphrases or a hypothetical answer; each one is searched and the
+ * rankings are fused with reciprocal rank fusion. Reranking and snippets
+ * use the standalone question.
+ *
+ * Results come in three formats:
+ * - full: the whole matching passage (chunk)
+ * - snippet: windows of `snippetLength` characters around the query terms,
+ *   optionally highlighted (see ./snippets)
+ * - ids: document IDs, titles and scores only
+ *
+ * With a token budget, full and snippet results are packed into it: whole
+ * while they fit, then cut to snippets, duplicates and what no longer fits
+ * dropped; the `packing` report lists the truncated and dropped documents.
+ */
+
+import type { MastraMemory } from '@mastra/core/memory';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { callerFromContext, canAccess, filterAccessible } from './access-control';
+import type { KnowledgeCategory } from './categories';
+import { collapseChunkHits } from './chunking';
+import { assertIndexDimension, embeddingProvider, embedTexts } from './embeddings';
+import { combineFilters, metadataFilterSchema } from './filters';
+import { createAzureKeywordSearch, fuseRankings, hybridSearch, type RankedResult } from './keyword-search';
+import { packResults } from './packing';
+import {
+  defaultQueryRewriter,
+  queryRewriteStrategySchema,
+  recentConversation,
+  type QueryRewriter,
+  type QueryRewriteStrategy,
+  type RewrittenQuery,
+} from './query-rewriting';
+import { rerank, type RerankCandidate, type Reranker } from './reranking';
+import { buildSnippet, DEFAULT_SNIPPET_LENGTH } from './snippets';
+import { resolveIndexName } from './tenancy';
+import { createVectorStore, knowledgeIndexName, vectorStoreConfig } from './vector-store';
+import { loadUserProfile, personalize, profileCategoryFilter, type ProfileMatch } from '../memory/user-profile';
+
+// Chunk hits fetched per requested document when collapsing to parents
+const CHUNKS_PER_DOCUMENT = 4;
+
+// Candidates retrieved per requested result when a reranker is configured
+const RERANK_CANDIDATES_FACTOR = 3;
+
+// When documents the caller may not read crowd out the candidates, the
+// retrieval is repeated this many times larger, up to MAX_ACCESS_OVERFETCH
+// times the original size
+const ACCESS_OVERFETCH_FACTOR = 2;
+const MAX_ACCESS_OVERFETCH = 8;
+
+const vectorStore = createVectorStore('knowledge-base');
+
+// Full-text (BM25) search on the same Azure AI Search service
+const azureKeywordQuery =
+  vectorStoreConfig.provider === 'azure-ai-search'
+    ? createAzureKeywordSearch({
+        endpoint: vectorStoreConfig.azure.endpoint || '',
+        credential: vectorStoreConfig.azure.credential || '',
+        searchFields: process.env.AZURE_AI_SEARCH_TEXT_FIELDS?.split(',')
+          .map((field) => field.trim())
+          .filter(Boolean),
+      })
+    : undefined;
+
+export const resultFormatSchema = z.enum(['full', 'snippet', 'ids']);
+
+export type ResultFormat = z.infer<typeof resultFormatSchema>;
+
+/**
+ * Per-agent settings of the retrieval service
+ */
+export interface RetrieverOptions {
+  /** Restricts every search to these categories (applied on top of caller filters) */
+  categories?: readonly KnowledgeCategory[];
+  /** Reranks the retrieved candidates before the top results are returned */
+  reranker?: Reranker;
+  /** Result format when the request does not set one (default: full) */
+  format?: ResultFormat;
+  /** Query rewrite strategy when the request does not set one (default: none) */
+  rewrite?: QueryRewriteStrategy;
+  /** Rewrites queries (default: LLM rewriter, QUERY_REWRITER_MODEL) */
+  rewriter?: QueryRewriter;
+  /** Token budget of the results (full and snippet formats); unlimited when omitted */
+  contextBudget?: number;
+}
+
+export const searchRequestSchema = z.object({
+  query: z.string().describe('The natural language search query'),
+  indexName: z.string().default(knowledgeIndexName).describe('Name of the index to search in'),
+  topK: z.number().default(5).describe('Number of results to return'),
+  mode: z
+    .enum(['vector', 'keyword', 'hybrid'])
+    .default('hybrid')
+    .describe('vector: by meaning; keyword: by exact terms (BM25); hybrid: both, fused by rank'),
+  filter: metadataFilterSchema
+    .optional()
+    .describe(
+      'Metadata filter using Mastra operators, e.g. { category: "science", tags: { $in: ["AI"] }, timestamp: { $gte: "2024-01-01" } }. Without a category in it, the user\'s preferred categories are used when they have any',
+    ),
+  groupByDocument: z
+    .boolean()
+    .default(true)
+    .describe('Collapse matching chunks into one result per document, showing the best passage'),
+  format: resultFormatSchema
+    .optional()
+    .describe('full: whole matching passage; snippet: windows around the query terms; ids: IDs, titles and scores only'),
+  snippetLength: z
+    .number()
+    .int()
+    .min(50)
+    .optional()
+    .describe(`Approximate characters per snippet (format snippet, default ${DEFAULT_SNIPPET_LENGTH})`),
+  highlight: z.boolean().optional().describe('Mark the query terms in snippets as **term** (format snippet, default true)'),
+  rewrite: queryRewriteStrategySchema
+    .optional()
+    .describe(
+      'Rewrite the query with the conversation before searching: standalone (self-contained question), multi-query (plus paraphrases), hyde (plus a hypothetical answer); none searches the query as given',
+    ),
+  conversation: z
+    .array(z.object({ role: z.enum(['user', 'assistant']), text: z.string() }))
+    .optional()
+    .describe('Recent conversation turns the query depends on, for rewriting; read from memory when the agent has one'),
+  maxTokens: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Token budget of the results, when less than the agent's is enough (formats full and snippet); capped at the agent's budget"),
+  candidates: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Candidates retrieved before reranking to topK (only used when reranking is enabled)'),
+  personalize: z
+    .boolean()
+    .default(true)
+    .describe("Personalize with the user's profile from working memory (preferred categories, interests, seen documents)"),
+});
+
+export type SearchRequest = z.infer<typeof searchRequestSchema>;
+
+// Scores are fixed-point strings; fields beyond the identity are absent in the ids format
+export const searchResultSchema = z.object({
+  position: z.number(),
+  documentId: z.string(),
+  title: z.string(),
+  score: z.string(),
+  originalPosition: z.number().optional(),
+  rerankScore: z.string().optional(),
+  profileBoost: z.string().optional(),
+  matchedInterests: z.array(z.string()).optional(),
+  seen: z.boolean().optional(),
+  vectorScore: z.string().optional(),
+  vectorRank: z.number().optional(),
+  keywordScore: z.string().optional(),
+  keywordRank: z.number().optional(),
+  category: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  timestamp: z.string().optional(),
+  chunkIndex: z.number().optional(),
+  matchedChunks: z.number().optional(),
+  needsReview: z.boolean().optional(),
+  content: z.string().optional(),
+  snippet: z.string().optional(),
+  truncated: z.literal(true).optional(),
+});
+
+const packedDocumentSchema = z.object({ documentId: z.string(), title: z.string(), tokens: z.number() });
+
+export const searchResponseSchema = z.object({
+  query: z.string(),
+  rewrite: z
+    .object({
+      strategy: queryRewriteStrategySchema,
+      standaloneQuery: z.string(),
+      queries: z.array(z.object({ kind: z.string(), query: z.string() })),
+    })
+    .optional(),
+  mode: searchRequestSchema.shape.mode.removeDefault(),
+  format: resultFormatSchema,
+  keywordBackend: z.enum(['store', 'azure', 'local']).optional(),
+  keywordError: z.string().optional(),
+  filter: z.record(z.unknown()).nullable().optional(),
+  filterMode: z.enum(['none', 'server', 'client']).optional(),
+  profileFilterApplied: z.boolean().optional(),
+  reranker: z.string().optional(),
+  personalized: z.boolean(),
+  resultsCount: z.number(),
+  results: z.array(searchResultSchema),
+  packing: z
+    .object({
+      budget: z.number(),
+      usedTokens: z.number(),
+      truncated: z.array(packedDocumentSchema.extend({ originalTokens: z.number() })),
+      dropped: z.array(packedDocumentSchema.extend({ reason: z.enum(['duplicate', 'budget']) })),
+    })
+    .optional(),
+});
+
+// Output of the search tool, which reports failures instead of throwing
+export const searchToolOutputSchema = z.discriminatedUnion('success', [
+  searchResponseSchema.extend({ success: z.literal(true) }),
+  z.object({ success: z.literal(false), error: z.string() }),
+]);
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+export type SearchToolOutput = z.infer<typeof searchToolOutputSchema>;
+
+/**
+ * Who the search runs for
+ */
+export interface SearchContext {
+  runtimeContext?: RuntimeContext;
+  memory?: MastraMemory;
+  threadId?: string;
+  resourceId?: string;
+  /** Reported in the access audit log */
+  tool: string;
+}
+
+interface SearchHit {
+  documentId: string;
+  score: number;
+  /** Best matching chunk of the document, or the chunk itself */
+  chunk: RankedResult;
+  matchedChunks?: number;
+}
+
+// Applied even when the agent lists every category, so documents without a
+// category (or outside the taxonomy) stay out of its searches
+function categoryScope(categories?: readonly KnowledgeCategory[]) {
+  if (!categories?.length) return undefined;
+  return { category: { $in: [...categories] } };
+}
+
+/**
+ * Keeps the best `topK` items, reranked when the agent has a reranker.
+ * Every item keeps its position before reranking.
+ */
+async function selectTop<T>(
+  reranker: Reranker | undefined,
+  params: { query: string; indexName: string; items: T[]; topK: number; toCandidate: (item: T) => RerankCandidate },
+): Promise<{ item: T; originalPosition: number; rerankScore?: number }[]> {
+  if (!reranker) {
+    return params.items.slice(0, params.topK).map((item, i) => ({ item, originalPosition: i + 1 }));
+  }
+  return rerank(reranker, params);
+}
+
+function chunkText(chunk: RankedResult): string {
+  return chunk.document || chunk.metadata?.content || '';
+}
+
+function rerankFields(selected: { originalPosition: number; rerankScore?: number }) {
+  return selected.rerankScore === undefined
+    ? {}
+    : { originalPosition: selected.originalPosition, rerankScore: selected.rerankScore.toFixed(4) };
+}
+
+function profileMatchFields(match?: ProfileMatch) {
+  return match
+    ? { profileBoost: match.boost.toFixed(2), matchedInterests: match.matchedDomains, seen: match.seen }
+    : {};
+}
+
+function componentScores(result: RankedResult) {
+  return {
+    vectorScore: result.vectorScore?.toFixed(4),
+    vectorRank: result.vectorRank,
+    keywordScore: result.keywordScore?.toFixed(4),
+    keywordRank: result.keywordRank,
+  };
+}
+
+function formatResult(
+  { item: { item: hit, score, profile: match }, ...positions }: {
+    item: { item: SearchHit; score: number; profile?: ProfileMatch };
+    originalPosition: number;
+    rerankScore?: number;
+  },
+  index: number,
+  query: string,
+  request: SearchRequest,
+  format: ResultFormat,
+) {
+  const metadata = hit.chunk.metadata ?? {};
+  const identity = {
+    position: index + 1,
+    documentId: hit.documentId,
+    title: metadata.title || 'Untitled',
+    score: score.toFixed(4),
+  };
+  if (format === 'ids') return identity;
+
+  const text = chunkText(hit.chunk);
+  return {
+    ...identity,
+    ...rerankFields(positions),
+    ...profileMatchFields(match),
+    ...componentScores(hit.chunk),
+    category: metadata.category || 'No category',
+    tags: metadata.tags,
+    timestamp: metadata.timestamp,
+    chunkIndex: metadata.chunkIndex,
+    ...(hit.matchedChunks === undefined ? {} : { matchedChunks: hit.matchedChunks }),
+    ...(metadata.needsReview ? { needsReview: true } : {}),
+    ...(format === 'full'
+      ? { content: text || 'No content' }
+      : { snippet: buildSnippet(text, query, { length: request.snippetLength, highlight: request.highlight }) }),
+  };
+}
+
+/**
+ * Creates the retrieval service of an agent
+ */
+export function createRetriever({
+  categories,
+  reranker,
+  format: defaultFormat = 'full',
+  rewrite: defaultRewrite = 'none',
+  rewriter,
+  contextBudget,
+}: RetrieverOptions = {}) {
+  return {
+    categories,
+    reranker,
+
+    async search(
+      request: SearchRequest,
+      { runtimeContext, memory, threadId, resourceId, tool }: SearchContext,
+    ): Promise<SearchResponse> {
+      const { topK, mode, filter, groupByDocument } = request;
+      const format = request.format ?? defaultFormat;
+      const strategy = request.rewrite ?? defaultRewrite;
+      const indexName = resolveIndexName(runtimeContext, request.indexName);
+      const candidates = reranker ? Math.max(request.candidates ?? topK * RERANK_CANDIDATES_FACTOR, topK) : topK;
+      const fetchSize = groupByDocument ? candidates * CHUNKS_PER_DOCUMENT : candidates;
+
+      const configurationError = embeddingProvider.configurationError();
+      if (configurationError) throw new Error(configurationError);
+
+      await assertIndexDimension(vectorStore, indexName);
+
+      const rewritten =
+        strategy === 'none'
+          ? undefined
+          : await (rewriter ?? defaultQueryRewriter()).rewrite({
+              query: request.query,
+              conversation: request.conversation ?? (await recentConversation({ memory, threadId, resourceId })),
+              strategy,
+            });
+      const query = rewritten?.standaloneQuery ?? request.query;
+      const searchQueries: RewrittenQuery[] = rewritten?.queries ?? [{ text: query, kind: 'original' }];
+      const queryVectors = await embedTexts(searchQueries.map((q) => q.embeddingText ?? q.text));
+      const profile = request.personalize ? await loadUserProfile({ memory, threadId, resourceId }) : undefined;
+
+      const caller = callerFromContext(runtimeContext);
+      const retrieve = async (profileFilter?: ReturnType<typeof profileCategoryFilter>) => {
+        const appliedFilter = combineFilters(filter, categoryScope(categories), profileFilter);
+        const fetch = async (size: number) => {
+          const rankings = await Promise.all(
+            searchQueries.map((searchQuery, i) =>
+              hybridSearch(vectorStore, {
+                indexName,
+                query: searchQuery.text,
+                queryVector: queryVectors[i],
+                topK: size,
+                filter: appliedFilter,
+                mode,
+                azureKeywordQuery,
+              }),
+            ),
+          );
+          const fused = rankings.length === 1 ? rankings[0].results : fuseRankings(rankings.map((r) => r.results), size);
+          return { rankings, fused };
+        };
+
+        // Fetch more until enough readable candidates remain, the index has
+        // no more matches, or the over-fetch limit is reached
+        let size = fetchSize;
+        let fetched = await fetch(size);
+        while (
+          fetched.fused.length === size &&
+          size < fetchSize * MAX_ACCESS_OVERFETCH &&
+          fetched.fused.filter((r) => canAccess(r.metadata, caller)).length < fetchSize
+        ) {
+          size = Math.min(size * ACCESS_OVERFETCH_FACTOR, fetchSize * MAX_ACCESS_OVERFETCH);
+          fetched = await fetch(size);
+        }
+
+        const results = await filterAccessible(fetched.fused, {
+          runtimeContext,
+          metadataOf: (r) => r.metadata,
+          idOf: (r) => r.metadata?.parentId ?? r.id,
+          audit: { tool, indexName, query },
+        });
+        return { ...fetched.rankings[0], results: results.slice(0, fetchSize), appliedFilter };
+      };
+
+      // The preferred categories are the default category of every search: an
+      // explicit category wins, and the search is repeated without them when
+      // they match nothing
+      const profileFilter =
+        filter?.category === undefined ? profileCategoryFilter(profile, categories) : undefined;
+      let searched = await retrieve(profileFilter);
+      const profileFilterApplied = !!profileFilter && searched.results.length > 0;
+      if (profileFilter && !profileFilterApplied) searched = await retrieve();
+      const { results, keywordBackend, keywordError, filterMode, appliedFilter } = searched;
+
+      const hits: SearchHit[] = groupByDocument
+        ? collapseChunkHits(results, candidates).map((hit) => ({
+            documentId: hit.documentId,
+            score: hit.score,
+            chunk: hit.bestChunk,
+            matchedChunks: hit.matchedChunks,
+          }))
+        : results.map((r) => ({ documentId: r.metadata?.parentId ?? r.id, score: r.score ?? 0, chunk: r }));
+
+      const selected = await selectTop(reranker, {
+        query,
+        indexName,
+        items: personalize(hits, profile, (hit) => ({
+          score: hit.score,
+          documentId: hit.documentId,
+          category: hit.chunk.metadata?.category,
+          title: hit.chunk.metadata?.title,
+          tags: hit.chunk.metadata?.tags,
+          text: chunkText(hit.chunk),
+        })),
+        topK,
+        toCandidate: ({ item: hit }) => ({
+          id: hit.chunk.id,
+          title: hit.chunk.metadata?.title ?? '',
+          text: chunkText(hit.chunk),
+        }),
+      });
+
+      const formatted = selected.map((item, i) => formatResult(item, i, query, request, format));
+      // maxTokens can only lower the agent's budget, never raise it
+      const budget =
+        contextBudget === undefined ? request.maxTokens : Math.min(request.maxTokens ?? contextBudget, contextBudget);
+      const packed =
+        budget && format !== 'ids'
+          ? packResults(formatted, {
+              budget,
+              field: format === 'full' ? 'content' : 'snippet',
+              shorten: (result, maxChars) =>
+                buildSnippet(chunkText(selected[result.position - 1].item.item.chunk), query, {
+                  length: maxChars,
+                  highlight: format === 'snippet' && request.highlight !== false,
+                }),
+            })
+          : undefined;
+
+      return {
+        query: request.query,
+        ...(rewritten
+          ? {
+              rewrite: {
+                strategy: rewritten.strategy,
+                standaloneQuery: rewritten.standaloneQuery,
+                queries: rewritten.queries.map((q) => ({ kind: q.kind, query: q.embeddingText ?? q.text })),
+              },
+            }
+          : {}),
+        mode,
+        format,
+        keywordBackend,
+        ...(keywordError ? { keywordError } : {}),
+        ...(filter || profileFilter ? { filter: appliedFilter, filterMode, profileFilterApplied } : {}),
+        reranker: reranker?.name,
+        personalized: !!profile,
+        resultsCount: packed ? packed.results.length : formatted.length,
+        results: packed ? packed.results : formatted,
+        ...(packed ? { packing: packed.report } : {}),
+      };
+    },
+  };
+}
+
+export type Retriever = ReturnType<typeof createRetriever>;
@@ -0,0 +1,87 @@
+/**
+ * Retries with exponential backoff for rate-limited API calls
+ */
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt */
+  retries?: number;
+  /** Delay before the first retry, doubled on every attempt */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void;
+}
+
+// Fields of the errors thrown by the AI SDK, Azure SDKs and fetch
+export interface ApiError {
+  status?: number;
+  statusCode?: number;
+  message?: string;
+  response?: { status?: number };
+  responseHeaders?: Record<string, string | undefined>;
+  /** Last attempt of an AI SDK RetryError */
+  lastError?: unknown;
+}
+
+/**
+ * The error's API fields, when it is an object
+ */
+export function apiError(error: unknown): ApiError | undefined {
+  return typeof error === 'object' && error !== null ? (error as ApiError) : undefined;
+}
+
+/**
+ * Detects HTTP 429 / rate limit errors from the AI SDK, Azure SDKs and fetch
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const e = apiError(error);
+  if (!e) return false;
+
+  const status = e.statusCode ?? e.status ?? e.response?.status;
+  if (status === 429) return true;
+
+  const message = String(e.message ?? '').toLowerCase();
+  if (message.includes('429') || message.includes('rate limit') || message.includes('too many requests')) {
+    return true;
+  }
+
+  // The AI SDK wraps the last error after its own retries
+  return e.lastError ? isRateLimitError(e.lastError) : false;
+}
+
+function retryAfterMs(error: unknown): number | undefined {
+  const e = apiError(error);
+  const headers = e?.responseHeaders ?? apiError(e?.lastError)?.responseHeaders;
+  const value = headers?.['retry-after'];
+  const seconds = value !== undefined ? Number(value) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+/**
+ * Runs `fn`, retrying rate-limited failures with exponential backoff and
+ * jitter. A Retry-After header, when present, takes precedence.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  {
+    retries = 5,
+    baseDelayMs = 1000,
+    maxDelayMs = 30000,
+    shouldRetry = isRateLimitError,
+    onRetry,
+  }: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+
+      const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      const delayMs = retryAfterMs(error) ?? backoff / 2 + Math.random() * (backoff / 2);
+      onRetry?.({ attempt: attempt + 1, delayMs, error });
+
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
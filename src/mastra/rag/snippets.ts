@@ -0,0 +1,118 @@
+/**
+ * Search result snippets
+ *
+ * Cuts a passage down to the parts that matter for a query: up to three
+ * windows of text around the query terms, preferring windows that show
+ * terms not seen yet, joined with " … ". Query terms can be highlighted as
+ * **term**. Passages without any query term keep their beginning.
+ */
+
+import { tokenize } from './keyword-search';
+
+export const DEFAULT_SNIPPET_LENGTH = 300;
+
+// Windows around query terms per snippet
+const MAX_WINDOWS = 3;
+
+// How far a window edge may move to land on a word boundary
+const WORD_BOUNDARY_SLACK = 20;
+
+export interface SnippetOptions {
+  /** Approximate length of the snippet in characters (excluding highlight marks) */
+  length?: number;
+  /** Wrap the query terms in ** */
+  highlight?: boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matches the query terms as whole words, longest first; undefined when the
+ * query has no terms (only stopwords)
+ */
+export function queryTermPattern(query: string): RegExp | undefined {
+  const terms = [...new Set(tokenize(query))].sort((a, b) => b.length - a.length);
+  if (terms.length === 0) return undefined;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+// Moves the window edges inwards to the nearest spaces, unless they are the text edges
+function snapToWords(text: string, start: number, end: number): [number, number] {
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space - start <= WORD_BOUNDARY_SLACK && space < end) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space !== -1 && end - space <= WORD_BOUNDARY_SLACK && space > start) end = space;
+  }
+  return [start, end];
+}
+
+/**
+ * Builds the snippet of `text` for `query`
+ */
+export function buildSnippet(
+  text: string,
+  query: string,
+  { length = DEFAULT_SNIPPET_LENGTH, highlight = true }: SnippetOptions = {},
+): string {
+  const passage = text.replace(/\s+/g, ' ').trim();
+  const pattern = queryTermPattern(query);
+  const mark = (piece: string) => (highlight && pattern ? piece.replace(pattern, '**$1**') : piece);
+
+  if (passage.length <= length) return mark(passage);
+
+  const matches = pattern ? [...passage.matchAll(pattern)] : [];
+  if (matches.length === 0) {
+    const [, end] = snapToWords(passage, 0, length);
+    return `${mark(passage.slice(0, end))} …`;
+  }
+
+  // Anchors: the first occurrence of each term, then later occurrences
+  const seenTerms = new Set<string>();
+  const firstOccurrences = matches.filter((m) => {
+    const term = m[1].toLowerCase();
+    if (seenTerms.has(term)) return false;
+    seenTerms.add(term);
+    return true;
+  });
+  const ordered = [...firstOccurrences, ...matches.filter((m) => !firstOccurrences.includes(m))];
+
+  const windowCount = Math.min(MAX_WINDOWS, matches.length);
+  const windowLength = Math.floor(length / windowCount);
+  const windows: [number, number][] = [];
+
+  for (const match of ordered) {
+    if (windows.length === windowCount) break;
+    const position = match.index!;
+    if (windows.some(([start, end]) => position >= start && position < end)) continue;
+
+    const center = position + match[0].length / 2;
+    const end = Math.min(passage.length, Math.max(0, Math.round(center - windowLength / 2)) + windowLength);
+    windows.push([Math.max(0, end - windowLength), end]);
+  }
+
+  // In reading order, overlapping windows merged
+  const merged = windows
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((acc, [start, end]) => {
+      const last = acc[acc.length - 1];
+      if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+      else acc.push([start, end]);
+      return acc;
+    }, []);
+
+  const pieces = merged.map(([start, end]) => {
+    const [from, to] = snapToWords(passage, start, end);
+    return { from, to, text: mark(passage.slice(from, to)) };
+  });
+
+  return (
+    (pieces[0].from > 0 ? '… ' : '') +
+    pieces.map((piece) => piece.text).join(' … ') +
+    (pieces[pieces.length - 1].to < passage.length ? ' …' : '')
+  );
+}
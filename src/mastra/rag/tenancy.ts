@@ -0,0 +1,103 @@
+/**
+ * Tenant isolation of knowledge base indexes
+ *
+ * When a request carries a tenant ID (`tenantId` in the runtime context),
+ * the index names the tools receive are names inside that tenant's
+ * namespace: `knowledge-base` becomes `tenant-<tenantId>-knowledge-base`
+ * (with underscores on LibSQL, see `physicalIndexName`).
+ * The model can still pick an index, but never one outside its tenant:
+ * - names of another tenant's indexes are rejected
+ * - listings only show the tenant's own indexes, without the prefix
+ *
+ * Requests without a tenant work on the shared (non-tenant) indexes, unless
+ * KNOWLEDGE_REQUIRE_TENANT=true, in which case they are rejected.
+ *
+ * Memory indexes (see `isMemoryIndex`) hold the conversations of every user
+ * and are never reachable through the knowledge base tools.
+ */
+
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { indexSeparator, isMemoryIndex, physicalIndexName } from './vector-store';
+
+export const TENANT_CONTEXT_KEY = 'tenantId';
+
+// HTTP header the server reads the tenant from (set by the gateway that authenticates the caller)
+export const TENANT_HEADER = 'x-tenant-id';
+
+// Letters and digits only: with dashes, one tenant's prefix could be the start of another's
+const TENANT_ID_PATTERN = /^[a-z0-9]{1,32}$/;
+
+export const tenantRequired = process.env.KNOWLEDGE_REQUIRE_TENANT === 'true';
+
+export function assertValidTenantId(tenantId: string): void {
+  if (!TENANT_ID_PATTERN.test(tenantId)) {
+    throw new Error(`Invalid tenant ID '${tenantId}': use 1-32 lowercase letters and digits`);
+  }
+}
+
+/**
+ * Tenant of the current request, if any
+ */
+export function tenantFromContext(runtimeContext?: RuntimeContext, required = tenantRequired): string | undefined {
+  const tenantId = runtimeContext?.get(TENANT_CONTEXT_KEY) as string | undefined;
+  if (tenantId === undefined || tenantId === '') {
+    if (required) throw new Error('This request has no tenant: the knowledge base requires a tenant ID');
+    return undefined;
+  }
+  assertValidTenantId(tenantId);
+  return tenantId;
+}
+
+// Start of every tenant index name in the configured store
+function tenantIndexPrefix() {
+  return `tenant${indexSeparator()}`;
+}
+
+function tenantPrefix(tenantId: string) {
+  return `${tenantIndexPrefix()}${tenantId}${indexSeparator()}`;
+}
+
+/**
+ * Physical name of a tenant's index
+ */
+export function tenantIndexName(tenantId: string, indexName: string): string {
+  assertValidTenantId(tenantId);
+  return `${tenantPrefix(tenantId)}${physicalIndexName(indexName)}`;
+}
+
+/**
+ * Maps the index name a tool received to the index of the caller's tenant,
+ * rejecting any index of another tenant and the memory indexes
+ */
+export function resolveIndexName(runtimeContext: RuntimeContext | undefined, indexName: string): string {
+  const tenantId = tenantFromContext(runtimeContext);
+  const name = physicalIndexName(indexName);
+
+  if (!tenantId) {
+    if (name.startsWith(tenantIndexPrefix())) {
+      throw new Error(`Access to index '${indexName}' denied: it belongs to a tenant`);
+    }
+    if (isMemoryIndex(name)) {
+      throw new Error(`Access to index '${indexName}' denied: it holds conversation memory`);
+    }
+    return name;
+  }
+
+  // Already the tenant's physical name (e.g. copied from a previous result)
+  if (name.startsWith(tenantPrefix(tenantId))) return name;
+  if (name.startsWith(tenantIndexPrefix())) {
+    throw new Error(`Access to index '${indexName}' denied: it belongs to another tenant`);
+  }
+  return tenantIndexName(tenantId, name);
+}
+
+/**
+ * The indexes the caller may see, named as the caller refers to them
+ */
+export function visibleIndexes(runtimeContext: RuntimeContext | undefined, indexes: string[]): string[] {
+  const tenantId = tenantFromContext(runtimeContext);
+  if (!tenantId) return indexes.filter((name) => !name.startsWith(tenantIndexPrefix()) && !isMemoryIndex(name));
+
+  const prefix = tenantPrefix(tenantId);
+  return indexes.filter((name) => name.startsWith(prefix)).map((name) => name.slice(prefix.length));
+}
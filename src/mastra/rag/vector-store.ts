@@ -0,0 +1,142 @@
+/**
+ * Vector store factory
+ *
+ * Tools, agents and scripts get their vector store from here, so the backend
+ * is chosen by configuration (VECTOR_STORE_PROVIDER):
+ * - azure-ai-search: Azure AI Search (default)
+ * - libsql: LibSQL / SQLite vectors in a local file or a Turso database
+ * - memory: in-process store for offline development and tests
+ */
+
+import { AzureAISearchVector } from '@mastra/aisearch';
+import { LibSQLVector } from '@mastra/libsql';
+import type { MastraVector } from '@mastra/core/vector';
+import { InMemoryVector } from './in-memory-vector';
+
+export type VectorStoreProviderName = 'azure-ai-search' | 'libsql' | 'memory';
+
+export interface VectorStoreConfig {
+  provider: VectorStoreProviderName;
+  azure: { endpoint?: string; credential?: string };
+  libsql: { url: string; authToken?: string };
+}
+
+const PROVIDERS: VectorStoreProviderName[] = ['azure-ai-search', 'libsql', 'memory'];
+
+export const DEFAULT_LIBSQL_VECTOR_URL = 'file:./vectors.db';
+
+export function vectorStoreConfigFromEnv(env: NodeJS.ProcessEnv = process.env): VectorStoreConfig {
+  const provider = (env.VECTOR_STORE_PROVIDER || 'azure-ai-search') as VectorStoreProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(
+      `Unknown VECTOR_STORE_PROVIDER '${provider}'. Use one of: ${PROVIDERS.join(', ')}`,
+    );
+  }
+
+  return {
+    provider,
+    azure: {
+      endpoint: env.AZURE_AI_SEARCH_ENDPOINT,
+      credential: env.AZURE_AI_SEARCH_CREDENTIAL,
+    },
+    libsql: {
+      url: env.LIBSQL_VECTOR_URL || DEFAULT_LIBSQL_VECTOR_URL,
+      authToken: env.LIBSQL_VECTOR_AUTH_TOKEN,
+    },
+  };
+}
+
+export const vectorStoreConfig = vectorStoreConfigFromEnv();
+
+// Index holding the knowledge base documents (KNOWLEDGE_INDEX_NAME)
+export const knowledgeIndexName = process.env.KNOWLEDGE_INDEX_NAME || 'knowledge-base';
+
+// Word separator in index names: LibSQL names are SQL identifiers (no
+// dashes), Azure AI Search names allow no underscores
+const INDEX_SEPARATORS: Record<VectorStoreProviderName, string> = {
+  'azure-ai-search': '-',
+  libsql: '_',
+  memory: '-',
+};
+
+export function indexSeparator(config: VectorStoreConfig = vectorStoreConfig): string {
+  return INDEX_SEPARATORS[config.provider];
+}
+
+/**
+ * Name of an index in the configured store. Dashes and underscores both
+ * become the provider's separator, so a name such as `knowledge-base` refers
+ * to the same index on every provider.
+ */
+export function physicalIndexName(indexName: string, config: VectorStoreConfig = vectorStoreConfig): string {
+  return indexName.replace(/[-_]/g, indexSeparator(config));
+}
+
+/**
+ * Whether an index holds conversation memory rather than documents: the
+ * memory index (MEMORY_INDEX_NAME, default `memory-messages`) or one Mastra
+ * Memory names itself (`memory_messages[_<dimension>]`)
+ */
+export function isMemoryIndex(indexName: string, config: VectorStoreConfig = vectorStoreConfig): boolean {
+  const name = physicalIndexName(indexName, config).toLowerCase();
+  const configured = physicalIndexName(process.env.MEMORY_INDEX_NAME || 'memory-messages', config).toLowerCase();
+  return name === configured || /^memory[-_]messages([-_]\d+)?$/.test(name);
+}
+
+/**
+ * Describes what is missing for the configured provider, if anything
+ */
+export function vectorStoreConfigurationError(config: VectorStoreConfig = vectorStoreConfig): string | undefined {
+  if (config.provider === 'azure-ai-search' && (!config.azure.endpoint || !config.azure.credential)) {
+    return 'Azure AI Search is not configured: set AZURE_AI_SEARCH_ENDPOINT and AZURE_AI_SEARCH_CREDENTIAL';
+  }
+  return undefined;
+}
+
+/**
+ * Where the configured provider keeps its indexes (provider plus endpoint or
+ * database URL), e.g. to tell checkpoints of different stores apart
+ */
+export function vectorStoreLocation(config: VectorStoreConfig = vectorStoreConfig): string {
+  switch (config.provider) {
+    case 'azure-ai-search':
+      return `azure-ai-search:${config.azure.endpoint ?? ''}`;
+    case 'libsql':
+      return `libsql:${config.libsql.url}`;
+    case 'memory':
+      return 'memory';
+  }
+}
+
+// One store per id, so every tool and agent in the process shares it
+// (required for the in-memory store to see what was written)
+const stores = new Map<string, MastraVector<any>>();
+
+/**
+ * Returns the vector store registered under `id` for the configured provider
+ */
+export function createVectorStore(id: string, config: VectorStoreConfig = vectorStoreConfig): MastraVector<any> {
+  const key = `${config.provider}:${id}`;
+  const existing = stores.get(key);
+  if (existing) return existing;
+
+  let store: MastraVector<any>;
+  switch (config.provider) {
+    case 'azure-ai-search':
+      store = new AzureAISearchVector({
+        id,
+        endpoint: config.azure.endpoint || '',
+        credential: config.azure.credential || '',
+      });
+      break;
+    case 'libsql':
+      store = new LibSQLVector({ connectionUrl: config.libsql.url, authToken: config.libsql.authToken });
+      break;
+    case 'memory':
+      store = new InMemoryVector();
+      break;
+  }
+
+  stores.set(key, store);
+  return store;
+}
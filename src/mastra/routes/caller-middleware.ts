@@ -0,0 +1,35 @@
+/**
+ * Caller of each API request
+ *
+ * Copies the X-User-Id and X-User-Groups (comma-separated) headers into the
+ * runtime context (`userId`, `userGroups`), where the search tools read them
+ * to drop documents the caller may not read. Like the tenant, the headers
+ * must be set by the gateway that authenticates the caller: an identity sent
+ * by the client in the request body is discarded.
+ */
+
+import type { ContextWithMastra } from '@mastra/core/server';
+import {
+  GROUPS_CONTEXT_KEY,
+  GROUPS_HEADER,
+  parseGroups,
+  USER_CONTEXT_KEY,
+  USER_HEADER,
+} from '../rag/access-control';
+
+export const callerMiddleware = {
+  // Agent endpoints (/api/...) and custom routes (/knowledge/...)
+  path: '*',
+  handler: async (c: ContextWithMastra, next: () => Promise<void>) => {
+    const runtimeContext = c.get('runtimeContext');
+    const userId = c.req.header(USER_HEADER)?.trim();
+    const groups = parseGroups(c.req.header(GROUPS_HEADER));
+
+    runtimeContext.delete(USER_CONTEXT_KEY);
+    runtimeContext.delete(GROUPS_CONTEXT_KEY);
+    if (userId) runtimeContext.set(USER_CONTEXT_KEY, userId);
+    if (groups.length > 0) runtimeContext.set(GROUPS_CONTEXT_KEY, groups);
+
+    await next();
+  },
+};
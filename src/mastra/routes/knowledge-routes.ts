@@ -0,0 +1,76 @@
+/**
+ * HTTP routes for the knowledge agents
+ *
+ * POST /knowledge/:agentId/answer returns a structured answer whose
+ * citations were verified against the documents the search tools returned:
+ *
+ *   { "answer": "...", "citations": [{ "documentId", "title", "score", "snippet" }], "invalidCitations": [] }
+ *
+ * Body: { "messages": string | message[], "threadId"?: string, "resourceId"?: string }
+ *
+ * The agent searches the indexes of the request's tenant (X-Tenant-Id).
+ *
+ * GET /knowledge/embedding-cache returns the hits and misses of the
+ * embedding cache since the server started.
+ */
+
+import { registerApiRoute, type ContextWithMastra } from '@mastra/core/server';
+import { z } from 'zod';
+import { generateWithCitations } from '../rag/citations';
+import { embeddingCache } from '../rag/embedding-cache';
+
+// Agents (as registered in the Mastra instance) that can answer with citations
+const KNOWLEDGE_AGENTS = ['knowledgeAgent', 'knowledgeMemoryAgent'];
+
+const answerRequestSchema = z.object({
+  messages: z.union([z.string(), z.array(z.any())]),
+  threadId: z.string().optional(),
+  resourceId: z.string().optional(),
+});
+
+// The Mastra server sets the runtime context of every request, though route
+// handlers are not typed with it
+function hasRuntimeContext<C extends object>(c: C): c is C & ContextWithMastra {
+  return 'get' in c && typeof c.get === 'function' && typeof c.get('runtimeContext')?.set === 'function';
+}
+
+export const answerWithCitationsRoute = registerApiRoute('/knowledge/:agentId/answer', {
+  method: 'POST',
+  handler: async (c) => {
+    const agentId = c.req.param('agentId');
+    if (!KNOWLEDGE_AGENTS.includes(agentId)) {
+      return c.json({ error: `Unknown knowledge agent '${agentId}'. Use one of: ${KNOWLEDGE_AGENTS.join(', ')}` }, 404);
+    }
+
+    const body = answerRequestSchema.safeParse(await c.req.json().catch(() => undefined));
+    if (!body.success) {
+      return c.json({ error: 'Invalid request body', issues: body.error.issues }, 400);
+    }
+
+    const { messages, threadId, resourceId } = body.data;
+    if ((threadId === undefined) !== (resourceId === undefined)) {
+      return c.json({ error: 'threadId and resourceId must be provided together' }, 400);
+    }
+
+    if (!hasRuntimeContext(c)) {
+      return c.json({ error: 'The request has no runtime context' }, 500);
+    }
+
+    try {
+      const agent = c.get('mastra').getAgent(agentId);
+      const result = await generateWithCitations(agent, messages, {
+        // Carries the tenant set by the tenant middleware
+        runtimeContext: c.get('runtimeContext'),
+        ...(threadId ? { memory: { thread: threadId, resource: resourceId! } } : {}),
+      });
+      return c.json(result);
+    } catch (error: any) {
+      return c.json({ error: error.message || 'Error while generating the answer' }, 500);
+    }
+  },
+});
+
+export const embeddingCacheStatsRoute = registerApiRoute('/knowledge/embedding-cache', {
+  method: 'GET',
+  handler: async (c) => c.json(embeddingCache.stats()),
+});
@@ -0,0 +1,32 @@
+/**
+ * Tenant of each API request
+ *
+ * Copies the X-Tenant-Id header into the runtime context (`tenantId`), where
+ * the knowledge tools read it to pick the tenant's indexes. The header must
+ * be set by the gateway that authenticates the caller: a tenant sent by the
+ * client in the request body is discarded.
+ */
+
+import type { ContextWithMastra } from '@mastra/core/server';
+import { assertValidTenantId, TENANT_CONTEXT_KEY, TENANT_HEADER } from '../rag/tenancy';
+
+export const tenantMiddleware = {
+  // Agent endpoints (/api/...) and custom routes (/knowledge/...)
+  path: '*',
+  handler: async (c: ContextWithMastra, next: () => Promise<void>) => {
+    const runtimeContext = c.get('runtimeContext');
+    const tenantId = c.req.header(TENANT_HEADER);
+
+    runtimeContext.delete(TENANT_CONTEXT_KEY);
+    if (tenantId) {
+      try {
+        assertValidTenantId(tenantId);
+      } catch (error: any) {
+        return c.json({ error: error.message }, 400);
+      }
+      runtimeContext.set(TENANT_CONTEXT_KEY, tenantId);
+    }
+
+    await next();
+  },
+};
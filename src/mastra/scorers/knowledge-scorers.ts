@@ -0,0 +1,243 @@
+import { openai } from '@ai-sdk/openai';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { createScorer } from '@mastra/core/scores';
+import type { ScorerRunOutputForAgent } from '@mastra/core/scores';
+import { getAssistantMessageFromRunOutput, getUserMessageFromRunInput } from '@mastra/evals/scorers/utils';
+import { SEARCH_TOOLS } from '../rag/citations';
+import { searchToolOutputSchema } from '../rag/retrieval';
+
+// Characters of each retrieved document shown to the judge
+const SNIPPET_LENGTH = 600;
+
+// Tool calls recorded on the messages of an agent run
+const messageToolInvocationsSchema = z.object({ toolInvocations: z.array(z.unknown()) });
+const toolInvocationSchema = z.object({ toolName: z.string(), state: z.string(), result: z.unknown().optional() });
+
+interface RetrievedDocument {
+  title: string;
+  documentId?: string;
+  snippet: string;
+}
+
+/**
+ * Collects what the search tools returned during the run
+ */
+function collectSearchResults(output: ScorerRunOutputForAgent) {
+  let searches = 0;
+  const documents: RetrievedDocument[] = [];
+
+  for (const message of output ?? []) {
+    const parsed = messageToolInvocationsSchema.safeParse(message);
+    if (!parsed.success) continue;
+
+    for (const entry of parsed.data.toolInvocations) {
+      const invocation = toolInvocationSchema.safeParse(entry);
+      if (!invocation.success) continue;
+      const { toolName, state, result } = invocation.data;
+      if (!SEARCH_TOOLS.includes(toolName) || state !== 'result') continue;
+      searches++;
+
+      const search = searchToolOutputSchema.safeParse(result);
+      if (!search.success || !search.data.success) continue;
+      for (const r of search.data.results) {
+        documents.push({
+          title: r.title,
+          documentId: r.documentId,
+          snippet: (r.snippet ?? r.content ?? '').substring(0, SNIPPET_LENGTH),
+        });
+      }
+    }
+  }
+
+  return { searches, documents };
+}
+
+const normalizeTitle = (title: string) => title.trim().replace(/^["'“”]+|["'“”.]+$/g, '').toLowerCase();
+
+function formatDocuments(documents: RetrievedDocument[]) {
+  return documents.map((d, i) => `[${i + 1}] ${d.title}\n${d.snippet}`).join('\n\n');
+}
+
+// Citation scorer: every title cited in the answer must come from a search result of the same run
+export const citationScorer = createScorer({
+  name: 'Citation Accuracy',
+  description: 'Checks that every document title cited in the answer was returned by a search tool in that run',
+  type: 'agent',
+  judge: {
+    model: 'openai/gpt-4o-mini',
+    instructions:
+      'You extract the sources an assistant cites in its answer. ' +
+      'Only list document titles the answer explicitly presents as sources; do not infer them. ' +
+      'Return only the structured JSON matching the provided schema.',
+  },
+})
+  .preprocess(({ run }) => {
+    const { searches, documents } = collectSearchResults(run.output);
+    return {
+      assistantText: getAssistantMessageFromRunOutput(run.output) ?? '',
+      searches,
+      retrievedTitles: [...new Set(documents.map((d) => d.title))],
+    };
+  })
+  .analyze({
+    description: 'Extract the document titles cited in the answer',
+    outputSchema: z.object({
+      citedTitles: z.array(z.string()).default([]),
+    }),
+    createPrompt: ({ results }) => `
+            List the document titles the assistant cites as sources in this answer.
+            Assistant response:
+            """
+            ${results.preprocessStepResult.assistantText}
+            """
+            Return JSON with fields:
+            {
+            "citedTitles": string[] // exactly as written in the answer, empty if none
+            }
+        `,
+  })
+  .generateScore(({ results }) => {
+    const { retrievedTitles, searches } = results.preprocessStepResult;
+    const cited: string[] = (results as any)?.analyzeStepResult?.citedTitles ?? [];
+    if (cited.length === 0) return searches > 0 && retrievedTitles.length > 0 ? 0 : 1; // Sources were available but not cited
+
+    const retrieved = new Set(retrievedTitles.map(normalizeTitle));
+    return cited.filter((title) => retrieved.has(normalizeTitle(title))).length / cited.length;
+  })
+  .generateReason(({ results, score }) => {
+    const { retrievedTitles } = results.preprocessStepResult;
+    const cited: string[] = (results as any)?.analyzeStepResult?.citedTitles ?? [];
+    const retrieved = new Set(retrievedTitles.map(normalizeTitle));
+    const unsupported = cited.filter((title) => !retrieved.has(normalizeTitle(title)));
+    return `Citation scoring: cited=${cited.length}, retrieved=${retrievedTitles.length}, not retrieved=[${unsupported.join('; ')}]. Score=${score}.`;
+  });
+
+// Groundedness scorer: LLM-judged share of the answer's claims supported by the retrieved content
+export const groundednessScorer = createScorer({
+  name: 'Groundedness',
+  description: 'Rates how much of the answer is supported by the documents the search tools returned',
+  type: 'agent',
+  judge: {
+    model: 'openai/gpt-4o-mini',
+    instructions:
+      'You are an expert fact checker. Split the answer into factual claims and decide, for each one, ' +
+      'whether the retrieved documents support it. Greetings, questions and offers of help are not claims. ' +
+      'Return only the structured JSON matching the provided schema.',
+  },
+})
+  .preprocess(({ run }) => {
+    const { documents } = collectSearchResults(run.output);
+    return {
+      userText: getUserMessageFromRunInput(run.input) ?? '',
+      assistantText: getAssistantMessageFromRunOutput(run.output) ?? '',
+      documents,
+    };
+  })
+  .analyze({
+    description: 'Count the claims of the answer and those supported by the retrieved documents',
+    outputSchema: z.object({
+      claims: z.number().int().min(0).default(0),
+      supportedClaims: z.number().int().min(0).default(0),
+      unsupported: z.array(z.string()).default([]),
+    }),
+    createPrompt: ({ results }) => `
+            You are evaluating whether a knowledge base assistant answered only from the documents it retrieved.
+            User question:
+            """
+            ${results.preprocessStepResult.userText}
+            """
+            Retrieved documents:
+            """
+            ${formatDocuments(results.preprocessStepResult.documents) || '(none)'}
+            """
+            Assistant response:
+            """
+            ${results.preprocessStepResult.assistantText}
+            """
+            Return JSON with fields:
+            {
+            "claims": number, // factual claims in the response
+            "supportedClaims": number, // claims supported by the retrieved documents
+            "unsupported": string[] // the unsupported claims
+            }
+        `,
+  })
+  .generateScore(({ results }) => {
+    const r = (results as any)?.analyzeStepResult || {};
+    if (!r.claims) return 1; // Nothing to ground
+    return Math.max(0, Math.min(1, (r.supportedClaims ?? 0) / r.claims));
+  })
+  .generateReason(({ results, score }) => {
+    const r = (results as any)?.analyzeStepResult || {};
+    return `Groundedness scoring: claims=${r.claims ?? 0}, supported=${r.supportedClaims ?? 0}. Score=${score}. Unsupported: ${(r.unsupported ?? []).join('; ')}`;
+  });
+
+// No-results scorer: flags answers given although every search came back empty.
+// The judge only runs for those runs: with results, the scorer does not apply.
+export const noResultsAnswerScorer = createScorer({
+  name: 'Answer Without Results',
+  description: 'Flags runs where the search returned no results but the assistant answered anyway',
+  type: 'agent',
+})
+  .preprocess(({ run }) => {
+    const { searches, documents } = collectSearchResults(run.output);
+    return {
+      assistantText: getAssistantMessageFromRunOutput(run.output) ?? '',
+      applicable: searches > 0 && documents.length === 0,
+    };
+  })
+  .analyze(async ({ results }) => {
+    const { applicable, assistantText } = results.preprocessStepResult;
+    if (!applicable) return undefined;
+
+    const { object } = await generateObject({
+      model: openai('gpt-4o-mini'),
+      system:
+        'You check whether an assistant admits that it found no relevant information. ' +
+        'Return only the structured JSON matching the provided schema.',
+      schema: z.object({
+        admitsNoInformation: z.boolean(),
+        explanation: z.string().default(''),
+      }),
+      prompt: `
+            The assistant searched its knowledge base and found nothing.
+            Assistant response:
+            """
+            ${assistantText}
+            """
+            Does the response clearly say that no relevant information was found, instead of answering the question with facts?
+        `,
+    });
+    return object;
+  })
+  .generateScore(({ results }) => {
+    const judged = results.analyzeStepResult;
+    if (!judged) return 1; // The search returned documents
+    return judged.admitsNoInformation ? 1 : 0;
+  })
+  .generateReason(({ results, score }) => {
+    const judged = results.analyzeStepResult;
+    return judged
+      ? `Search returned no results; admitsNoInformation=${judged.admitsNoInformation}. Score=${score}. ${judged.explanation}`
+      : `Search returned results, not applicable. Score=${score}.`;
+  });
+
+/**
+ * Scorers for the knowledge agents, each run on a sample of the responses
+ * (KNOWLEDGE_SCORERS_SAMPLING_RATE, 0-1)
+ */
+export function knowledgeAgentScorers(rate = Number(process.env.KNOWLEDGE_SCORERS_SAMPLING_RATE ?? 0.2)) {
+  const sampling = { type: 'ratio' as const, rate };
+  return {
+    citations: { scorer: citationScorer, sampling },
+    groundedness: { scorer: groundednessScorer, sampling },
+    answerWithoutResults: { scorer: noResultsAnswerScorer, sampling },
+  };
+}
+
+export const scorers = {
+  citationScorer,
+  groundednessScorer,
+  noResultsAnswerScorer,
+};
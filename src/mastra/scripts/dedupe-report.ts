@@ -0,0 +1,117 @@
+/**
+ * Script to report near-duplicate documents in a knowledge index
+ *
+ * Compares every document of the index with every other one and prints the
+ * clusters of documents that are the same or nearly the same (see
+ * ../rag/duplicates). Nothing is changed: merge, replace or delete the
+ * duplicates with the agent or the populate script.
+ *
+ * Usage:
+ *   pnpm dedupe
+ *   pnpm dedupe -- --index my-index --threshold 0.9
+ *   pnpm dedupe -- --tenant acme --out duplicates.json
+ *
+ * Options:
+ *   --index <name>       index to scan (default: KNOWLEDGE_INDEX_NAME or knowledge-base)
+ *   --tenant <id>        scan the tenant's copy of the index (tenant-<id>-<index>)
+ *   --threshold <n>      similarity from which two documents are near-duplicates
+ *                        (default: DUPLICATE_THRESHOLD or 0.95)
+ *   --max-chunks <n>     chunks read from the index (default: 5000)
+ *   --out <path>         also write the report as JSON
+ */
+
+import 'dotenv/config';
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { duplicateThreshold, findDuplicateClusters, MAX_SCANNED_CHUNKS } from '../rag/duplicates';
+import { assertIndexDimension, embeddingProvider } from '../rag/embeddings';
+import { tenantIndexName } from '../rag/tenancy';
+import {
+  createVectorStore,
+  knowledgeIndexName,
+  physicalIndexName,
+  vectorStoreConfigurationError,
+} from '../rag/vector-store';
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  blue: '\x1b[34m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+function parseOptions() {
+  const { values } = parseArgs({
+    options: {
+      index: { type: 'string', default: knowledgeIndexName },
+      tenant: { type: 'string' },
+      threshold: { type: 'string', default: String(duplicateThreshold) },
+      'max-chunks': { type: 'string', default: String(MAX_SCANNED_CHUNKS) },
+      out: { type: 'string' },
+    },
+  });
+
+  const threshold = Number(values.threshold);
+  if (!(threshold >= 0 && threshold <= 1)) {
+    throw new Error(`--threshold must be between 0 and 1, got '${values.threshold}'`);
+  }
+
+  return {
+    indexName: values.tenant ? tenantIndexName(values.tenant, values.index!) : physicalIndexName(values.index!),
+    threshold,
+    maxChunks: Number(values['max-chunks']),
+    out: values.out,
+  };
+}
+
+async function main() {
+  const { indexName, threshold, maxChunks, out } = parseOptions();
+
+  const configurationError = vectorStoreConfigurationError() ?? embeddingProvider.configurationError();
+  if (configurationError) {
+    console.log(`${colors.yellow}⚠ Error: ${configurationError}${colors.reset}\n`);
+    process.exit(1);
+  }
+
+  const vectorStore = createVectorStore('knowledge-base-dedupe');
+  if (!(await vectorStore.listIndexes()).includes(indexName)) {
+    console.log(`${colors.yellow}⚠ Index '${indexName}' does not exist${colors.reset}\n`);
+    process.exit(1);
+  }
+  await assertIndexDimension(vectorStore, indexName);
+
+  console.log(`\n${colors.cyan}🔍 Near-duplicates in '${indexName}' (similarity ≥ ${threshold})${colors.reset}\n`);
+  const report = await findDuplicateClusters(vectorStore, indexName, { threshold, maxChunks });
+
+  console.log(`  Scanned: ${report.scannedDocuments} documents (${report.scannedChunks} chunks)`);
+  if (report.truncated) {
+    console.log(`  ${colors.yellow}ℹ${colors.reset} Only the first ${maxChunks} chunks were read; raise --max-chunks to scan them all`);
+  }
+  console.log(`  Clusters: ${report.clusters.length}\n`);
+
+  report.clusters.forEach((cluster, i) => {
+    console.log(`${colors.blue}Cluster ${i + 1}${colors.reset} (${cluster.documents.length} documents)`);
+    for (const doc of cluster.documents) {
+      console.log(`  - ${doc.documentId}  ${doc.title}  [${doc.category ?? 'no category'}, ${doc.chunkCount} chunks]`);
+    }
+    for (const { documentIds, score, exact } of cluster.pairs) {
+      console.log(`    ${documentIds.join(' ↔ ')}: ${exact ? 'exact copy' : score.toFixed(3)}`);
+    }
+    console.log();
+  });
+
+  if (report.clusters.length === 0) {
+    console.log(`${colors.green}✓${colors.reset} No near-duplicates found\n`);
+  }
+
+  if (out) {
+    await writeFile(out, JSON.stringify(report, null, 2));
+    console.log(`${colors.green}✓${colors.reset} Report written to ${out}\n`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`\n${colors.yellow}❌ Error:${colors.reset}`, error.message);
+  process.exit(1);
+});
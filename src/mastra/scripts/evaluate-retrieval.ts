@@ -0,0 +1,169 @@
+/**
+ * Script to evaluate retrieval quality
+ *
+ * Indexes the sample documents into an in-memory vector store, runs the
+ * retrieval dataset through the search tool in every search mode, prints
+ * recall@k, MRR and nDCG@k, and compares them with the saved baseline.
+ * Exits with code 1 when a metric regressed.
+ *
+ * The embedder comes from EMBEDDING_PROVIDER and defaults to the offline
+ * `local` provider, so the evaluation runs without any external service.
+ *
+ * Usage:
+ *   pnpm eval:retrieval
+ *   pnpm eval:retrieval -- --update-baseline
+ *
+ * Options:
+ *   --k <n>               results per query (default: 5)
+ *   --mode <mode>         vector, keyword or hybrid (repeatable, default: all)
+ *   --baseline <path>     baseline file (default: src/mastra/evals/retrieval-baseline.json)
+ *   --tolerance <n>       allowed drop before a metric counts as a regression (default: 0.01)
+ *   --update-baseline     save this run as the new baseline
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+
+// The evaluation always runs against a fresh in-memory index
+process.env.VECTOR_STORE_PROVIDER = 'memory';
+process.env.EMBEDDING_PROVIDER ??= 'local';
+
+const EVAL_INDEX = 'retrieval-eval';
+const DEFAULT_BASELINE_PATH = 'src/mastra/evals/retrieval-baseline.json';
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  blue: '\x1b[34m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+function parseOptions() {
+  const { values } = parseArgs({
+    options: {
+      k: { type: 'string', default: '5' },
+      mode: { type: 'string', multiple: true },
+      baseline: { type: 'string', default: DEFAULT_BASELINE_PATH },
+      tolerance: { type: 'string', default: '0.01' },
+      'update-baseline': { type: 'boolean', default: false },
+    },
+  });
+
+  const modes = (values.mode ?? ['vector', 'keyword', 'hybrid']) as ('vector' | 'keyword' | 'hybrid')[];
+  for (const mode of modes) {
+    if (!['vector', 'keyword', 'hybrid'].includes(mode)) {
+      throw new Error(`Unknown mode '${mode}'. Use vector, keyword or hybrid`);
+    }
+  }
+
+  return {
+    k: Number(values.k),
+    modes,
+    baselinePath: values.baseline!,
+    tolerance: Number(values.tolerance),
+    updateBaseline: values['update-baseline']!,
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+async function main() {
+  const { k, modes, baselinePath, tolerance, updateBaseline } = parseOptions();
+
+  // Imported here so they see the store and embedder selected above
+  const { embeddingProvider, forgetIndexDimension } = await import('../rag/embeddings');
+  const { createVectorStore } = await import('../rag/vector-store');
+  const { ingestDocuments } = await import('../rag/ingestion');
+  const { sampleDocuments } = await import('../rag/sample-documents');
+  const { searchDocumentsTool } = await import('../tools/vector-store-tools');
+  const { retrievalDataset } = await import('../evals/retrieval-dataset');
+  const { compareWithBaseline, loadBaseline, runRetrievalEval, saveBaseline } = await import(
+    '../evals/retrieval-eval'
+  );
+
+  console.log(`${colors.cyan}🧪 Retrieval evaluation${colors.reset}\n`);
+
+  const embeddingError = embeddingProvider.configurationError();
+  if (embeddingError) {
+    console.log(`${colors.yellow}⚠ Error: ${embeddingError}${colors.reset}\n`);
+    process.exit(1);
+  }
+  const embedder = `${embeddingProvider.name}/${embeddingProvider.modelId} (${embeddingProvider.dimension}d)`;
+
+  // 1. Index the sample documents in the same store the search tool uses
+  console.log(`${colors.blue}→${colors.reset} Indexing ${sampleDocuments.length} sample documents (${embedder})...`);
+  const vectorStore = createVectorStore('knowledge-base');
+  await vectorStore.createIndex({ indexName: EVAL_INDEX, dimension: embeddingProvider.dimension, metric: 'cosine' });
+  forgetIndexDimension(vectorStore, EVAL_INDEX);
+  const summary = await ingestDocuments(vectorStore, sampleDocuments, { indexName: EVAL_INDEX, checkpointPath: false });
+  if (summary.failed.length > 0) {
+    throw new Error(`Could not index ${summary.failed.map((f) => f.title).join(', ')}: ${summary.failed[0].error}`);
+  }
+
+  // 2. Run the dataset through the search tool
+  console.log(`${colors.blue}→${colors.reset} Running ${retrievalDataset.length} queries (k=${k})...\n`);
+  const report = await runRetrievalEval({
+    tool: searchDocumentsTool,
+    dataset: retrievalDataset,
+    indexName: EVAL_INDEX,
+    k,
+    modes,
+    embedder,
+  });
+
+  // 3. Compare with the baseline
+  const baseline = await loadBaseline(baselinePath);
+  if (baseline && baseline.embedder !== embedder) {
+    console.log(
+      `${colors.yellow}ℹ${colors.reset} Baseline was recorded with ${baseline.embedder}, scores are not comparable\n`,
+    );
+  }
+  const comparable = baseline && baseline.embedder === embedder && baseline.k === k ? baseline : undefined;
+
+  console.log(`${colors.cyan}📊 Results:${colors.reset}`);
+  for (const [mode, result] of Object.entries(report.modes)) {
+    const previous = comparable?.modes[mode as keyof typeof report.modes]?.metrics;
+    const metric = (name: 'recallAtK' | 'mrr' | 'ndcgAtK') => {
+      const value = result!.metrics[name];
+      if (!previous) return percent(value);
+      const delta = value - previous[name];
+      return `${percent(value)} (${delta >= 0 ? '+' : ''}${percent(delta)})`;
+    };
+
+    console.log(
+      `  ${mode.padEnd(8)} recall@${k}: ${metric('recallAtK')}  MRR: ${metric('mrr')}  nDCG@${k}: ${metric('ndcgAtK')}`,
+    );
+  }
+  console.log();
+
+  if (updateBaseline) {
+    await saveBaseline(baselinePath, report);
+    console.log(`${colors.green}✓${colors.reset} Baseline saved to ${baselinePath}\n`);
+    return;
+  }
+
+  if (!comparable) {
+    console.log(`${colors.yellow}ℹ${colors.reset} No comparable baseline; run with --update-baseline to save one\n`);
+    return;
+  }
+
+  const regressions = compareWithBaseline(report, comparable, tolerance);
+  if (regressions.length === 0) {
+    console.log(`${colors.green}✓${colors.reset} No regressions against the baseline\n`);
+    return;
+  }
+
+  console.log(`${colors.yellow}⚠ ${regressions.length} regression(s) against the baseline:${colors.reset}`);
+  for (const { mode, metric, query, baseline: before, current } of regressions) {
+    const label = metric === 'query' ? `nDCG of "${query}"` : metric;
+    console.log(`  - [${mode}] ${label}: ${percent(before)} → ${percent(current)}`);
+  }
+  console.log();
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(`\n${colors.yellow}⚠ Evaluation failed:${colors.reset}`, error.message ?? error);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+/**
+ * Script to administer what the knowledge memory agent remembers about a user
+ *
+ * Works on one resource (the `resourceId` the agent was called with), in the
+ * Mastra storage (mastra.db) and the memory vector index (MEMORY_INDEX_NAME).
+ *
+ * Usage:
+ *   pnpm memory -- list <resourceId>
+ *   pnpm memory -- export <resourceId> --out user-42.json
+ *   pnpm memory -- forget <resourceId> --yes
+ *
+ * Commands:
+ *   list      threads, working memory and recalled vectors of the resource
+ *   export    messages and working memory as JSON (stdout, or --out <path>)
+ *   forget    deletes threads, messages, working memory and vectors (requires --yes)
+ */
+
+import 'dotenv/config';
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { mastra } from '../index';
+import { KnowledgeMemory } from '../memory/knowledge-memory';
+import { exportResourceMemory, forgetResource, inspectResourceMemory } from '../memory/memory-admin';
+import { vectorStoreConfigurationError } from '../rag/vector-store';
+
+const COMMANDS = ['list', 'export', 'forget'] as const;
+type Command = (typeof COMMANDS)[number];
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  blue: '\x1b[34m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+function parseOptions() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      yes: { type: 'boolean', default: false },
+    },
+  });
+
+  const [command, resourceId] = positionals;
+  if (!COMMANDS.includes(command as Command) || !resourceId) {
+    throw new Error(`Usage: pnpm memory -- <${COMMANDS.join('|')}> <resourceId> [--out <path>] [--yes]`);
+  }
+
+  return { command: command as Command, resourceId, out: values.out, yes: values.yes! };
+}
+
+async function main() {
+  const { command, resourceId, out, yes } = parseOptions();
+
+  const vectorStoreError = vectorStoreConfigurationError();
+  if (vectorStoreError) {
+    console.log(`${colors.yellow}⚠ Error: ${vectorStoreError}${colors.reset}\n`);
+    process.exit(1);
+  }
+
+  // Resolved through the agent so it gets the Mastra storage
+  const memory = await mastra.getAgent('knowledgeMemoryAgent').getMemory();
+  if (!(memory instanceof KnowledgeMemory)) {
+    throw new Error('knowledgeMemoryAgent has no KnowledgeMemory configured');
+  }
+
+  switch (command) {
+    case 'list': {
+      const summary = await inspectResourceMemory(memory, resourceId);
+      console.log(`${colors.cyan}🧠 Memory of '${resourceId}'${colors.reset}\n`);
+
+      console.log(`${colors.blue}Threads (${summary.threads.length}):${colors.reset}`);
+      for (const thread of summary.threads) {
+        console.log(
+          `  - ${thread.id}  ${thread.title ?? '(untitled)'}  ${thread.messageCount} messages, updated ${thread.updatedAt.toISOString()}`,
+        );
+      }
+
+      console.log(`\n${colors.blue}Recalled vectors in '${memory.indexName}' (${summary.vectors.length}):${colors.reset}`);
+      for (const vector of summary.vectors) {
+        console.log(`  - ${vector.id}  message ${vector.messageId ?? '?'} (thread ${vector.threadId ?? '?'})`);
+      }
+
+      console.log(`\n${colors.blue}Working memory:${colors.reset}`);
+      console.log(summary.workingMemory?.trim() || '  (empty)');
+      console.log();
+      break;
+    }
+
+    case 'export': {
+      const data = JSON.stringify(await exportResourceMemory(memory, resourceId), null, 2) + '\n';
+      if (!out) {
+        process.stdout.write(data);
+        break;
+      }
+      await writeFile(out, data);
+      console.log(`${colors.green}✓${colors.reset} Memory of '${resourceId}' exported to ${out}`);
+      break;
+    }
+
+    case 'forget': {
+      if (!yes) {
+        console.log(
+          `${colors.yellow}⚠ This permanently deletes everything remembered about '${resourceId}'. ` +
+            `Run again with --yes to confirm.${colors.reset}`,
+        );
+        process.exit(1);
+      }
+
+      const result = await forgetResource(memory, resourceId);
+      console.log(`${colors.green}✓${colors.reset} Forgot '${resourceId}':`);
+      console.log(`  - ${result.deletedThreads} threads, ${result.deletedMessages} messages`);
+      console.log(`  - ${result.deletedVectors} vectors from '${memory.indexName}'`);
+      if (result.remainingVectors > 0) {
+        console.log(
+          `${colors.yellow}⚠ ${result.remainingVectors} vectors of '${resourceId}' are still in '${memory.indexName}'; run forget again${colors.reset}`,
+        );
+      }
+      console.log(
+        `  - working memory ${result.deletedWorkingMemory ? 'deleted' : 'emptied (the storage cannot delete resources)'}`,
+      );
+      break;
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(`\n${colors.yellow}⚠ Memory administration failed:${colors.reset}`, error.message ?? error);
+  process.exit(1);
+});
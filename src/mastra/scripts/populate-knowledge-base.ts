@@ -1,14 +1,70 @@
 /**
- * Script to populate the knowledge index with sample data
+ * Script to populate the knowledge index
  *
- * This script creates an index in Azure AI Search and fills it with
- * sample articles on different topics.
+ * This script creates an index in the configured vector store (Azure AI
+ * Search by default, see VECTOR_STORE_PROVIDER) and fills it with
+ * documents from one or more sources: the built-in sample articles or local
+ * files (.md, .txt, .json/.jsonl, .csv, .html). Each document is split into
+ * chunks that are embedded and indexed separately.
+ *
+ * Documents are embedded and upserted in batches under stable IDs. Progress
+ * is saved to a checkpoint file (per store, index and embedding model), so
+ * rerunning skips unchanged documents and updates changed ones in place.
+ * When the index has to be created, its checkpoint is cleared first.
+ *
+ * Usage:
+ *   pnpm populate                                     # built-in sample documents
+ *   pnpm populate -- --source ./docs --category science
+ *   pnpm populate -- --source "docs/**\/*.md" --index my-index
+ *
+ * Options:
+ *   --source <path>        file, directory or glob; "samples" for the built-in set (repeatable)
+ *   --index <name>         target index (default: KNOWLEDGE_INDEX_NAME or knowledge-base)
+ *   --tenant <id>          write to the tenant's copy of the index (tenant-<id>-<index>)
+ *   --category <name>      category for documents that do not declare one (one of the knowledge base categories)
+ *   --classify <name>      classify documents that declare no category: llm or centroid; low-confidence
+ *                          categories are flagged for review (needsReview)
+ *   --allowed-users <ids>  comma-separated users allowed to read documents that declare no access lists
+ *   --allowed-groups <ids> comma-separated groups allowed to read documents that declare no access lists
+ *   --title-field <name>   JSON/CSV field holding the title (default: title)
+ *   --content-field <name> JSON/CSV field holding the content (default: content)
+ *   --category-field <name> JSON/CSV field holding the category (default: category)
+ *   --tags-field <name>    JSON/CSV field holding the tags (default: tags)
+ *   --id-field <name>      JSON/CSV field holding a stable record key (default: id)
+ *   --allowed-users-field <name>  JSON/CSV field holding the allowed users (default: allowedUsers)
+ *   --allowed-groups-field <name> JSON/CSV field holding the allowed groups (default: allowedGroups)
+ *   --batch-size <n>       documents per embedding call / upsert (default: 16)
+ *   --checkpoint <path>    checkpoint file (default: .data/ingest-checkpoint.json)
+ *   --no-checkpoint        index everything, without reading or writing a checkpoint
+ *                          (always the case with VECTOR_STORE_PROVIDER=memory)
  */
 
 import 'dotenv/config';
-import { AzureAISearchVector } from '@mastra/aisearch';
-import { openai } from '@ai-sdk/openai';
-import { embed } from 'ai';
+import { parseArgs } from 'node:util';
+import { assertIndexDimension, embeddingProvider, forgetIndexDimension } from '../rag/embeddings';
+import { embeddingCache } from '../rag/embedding-cache';
+import {
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_CHECKPOINT_PATH,
+  ingestDocuments,
+  type IngestDocument,
+} from '../rag/ingestion';
+import { loadDocuments, type LoaderOptions } from '../rag/loaders';
+import { sampleDocuments } from '../rag/sample-documents';
+import { tenantIndexName } from '../rag/tenancy';
+import { parseGroups } from '../rag/access-control';
+import { isKnowledgeCategory, unknownCategoryError } from '../rag/categories';
+import { createCategoryClassifier } from '../rag/classification';
+import {
+  createVectorStore,
+  knowledgeIndexName,
+  physicalIndexName,
+  vectorStoreConfig,
+  vectorStoreConfigurationError,
+} from '../rag/vector-store';
+
+// Name of the built-in source
+const SAMPLES_SOURCE = 'samples';
 
 const colors = {
   reset: '\x1b[0m',
@@ -18,169 +74,181 @@ const colors = {
   cyan: '\x1b[36m',
 };
 
-// Example data for the knowledge base (all in English)
-const sampleDocuments = [
-  {
-    title: 'Introduction to Artificial Intelligence',
-    content: `Artificial Intelligence (AI) is a branch of computer science that aims to create systems capable of performing tasks that normally require human intelligence. This includes learning, reasoning, perception, natural language processing, and decision-making. Modern AI systems use machine learning and deep learning techniques to improve their performance over time.`,
-    category: 'technology',
-    tags: ['AI', 'machine learning', 'technology'],
-  },
-  {
-    title: 'Vector Databases',
-    content: `Vector databases are specialized systems for storing and searching vector embeddings. Unlike traditional databases that use text or numeric indexes, vector databases enable searches by semantic similarity. This is fundamental for AI applications such as recommendation systems, semantic search, and retrieval-augmented generation (RAG).`,
-    category: 'technology',
-    tags: ['databases', 'vectors', 'embeddings'],
-  },
-  {
-    title: 'Azure AI Search: Cognitive Search',
-    content: `Azure AI Search is a cloud search service that provides semantic, vector, and full-text search capabilities. It allows you to index large volumes of data and perform searches using natural language processing. It is ideal for implementing RAG (Retrieval Augmented Generation) systems and applications that require intelligent search.`,
-    category: 'technology',
-    tags: ['Azure', 'search', 'cloud'],
-  },
-  {
-    title: 'Embeddings and Semantic Representation',
-    content: `Embeddings are vector representations of text, images, or other data that capture their semantic meaning. Models like OpenAI's text-embedding-3-small convert text into 1536-dimensional vectors, where texts with similar meanings have vectors close together in vector space. This allows comparing the meaning of texts using cosine or Euclidean distance.`,
-    category: 'technology',
-    tags: ['embeddings', 'NLP', 'OpenAI'],
-  },
-  {
-    title: 'RAG Architectures (Retrieval Augmented Generation)',
-    content: `RAG is an architecture that combines information retrieval with language generation. First, relevant documents are retrieved from a knowledge base using vector search, then these documents are used as context for an LLM to generate accurate and grounded responses. This reduces hallucinations and allows models to access up-to-date information.`,
-    category: 'technology',
-    tags: ['RAG', 'LLM', 'architecture'],
-  },
-  {
-    title: 'Climate Change and Its Effects',
-    content: `Climate change is a significant alteration of global climate patterns, mainly caused by the increase of greenhouse gases in the atmosphere. Effects include rising global temperatures, melting glaciers, more frequent extreme weather events, and changes in ecosystems. Reducing carbon emissions is crucial to mitigate these effects.`,
-    category: 'science',
-    tags: ['climate', 'environment', 'sustainability'],
-  },
-  {
-    title: 'Quantum Computing: The Future of Technology',
-    content: `Quantum computing uses principles of quantum mechanics such as superposition and entanglement to perform calculations. Unlike classical computers that use bits (0 or 1), quantum computers use qubits that can be in multiple states simultaneously. This promises to solve problems that are intractable for classical computers, such as large number factorization and molecular simulation.`,
-    category: 'science',
-    tags: ['quantum computing', 'physics', 'innovation'],
-  },
-  {
-    title: 'Agile Methodologies in Software Development',
-    content: `Agile methodologies like Scrum and Kanban revolutionized software development by focusing on short iterations, continuous collaboration, and adaptability. Instead of planning the entire project in advance, work is done in short sprints that allow priorities to be adjusted based on feedback. This results in higher quality software better aligned with user needs.`,
-    category: 'business',
-    tags: ['agile', 'scrum', 'software development'],
-  },
-  {
-    title: 'Digital Marketing and SEO',
-    content: `Digital marketing encompasses all promotion strategies in digital media. SEO (Search Engine Optimization) is essential to improve visibility in search engines through quality content, relevant keywords, and technical optimization. Content must be valuable to users while following SEO best practices to achieve high rankings.`,
-    category: 'business',
-    tags: ['marketing', 'SEO', 'digital'],
-  },
-  {
-    title: 'Nutrition and Holistic Health',
-    content: `A balanced diet is essential for maintaining health. It should include a variety of fruits, vegetables, lean proteins, whole grains, and healthy fats. Proper hydration, regular exercise, and quality sleep complement a healthy diet. Avoiding processed foods and added sugars significantly contributes to long-term well-being.`,
-    category: 'health',
-    tags: ['nutrition', 'well-being', 'diet'],
-  },
-  {
-    title: 'Supervised vs Unsupervised Machine Learning',
-    content: `In supervised learning, the model is trained with labeled data, learning to map inputs to known outputs. It is useful for classification and regression. Unsupervised learning works with unlabeled data, finding hidden patterns through clustering or dimensionality reduction. Each approach has its specific use cases depending on the problem to solve.`,
-    category: 'technology',
-    tags: ['machine learning', 'AI', 'algorithms'],
-  },
-  {
-    title: 'TypeScript: JavaScript with Types',
-    content: `TypeScript is a superset of JavaScript that adds static typing. It helps catch errors at compile time instead of runtime, improves developer experience with intelligent autocompletion, and makes it easier to maintain large-scale code. It is especially valuable in large projects with multiple developers.`,
-    category: 'technology',
-    tags: ['TypeScript', 'JavaScript', 'programming'],
-  },
-];
+function parseOptions() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      source: { type: 'string', multiple: true },
+      index: { type: 'string', default: knowledgeIndexName },
+      tenant: { type: 'string' },
+      category: { type: 'string' },
+      classify: { type: 'string' },
+      'allowed-users': { type: 'string' },
+      'allowed-groups': { type: 'string' },
+      'title-field': { type: 'string' },
+      'content-field': { type: 'string' },
+      'category-field': { type: 'string' },
+      'tags-field': { type: 'string' },
+      'id-field': { type: 'string' },
+      'allowed-users-field': { type: 'string' },
+      'allowed-groups-field': { type: 'string' },
+      'batch-size': { type: 'string', default: String(DEFAULT_BATCH_SIZE) },
+      checkpoint: { type: 'string', default: DEFAULT_CHECKPOINT_PATH },
+      'no-checkpoint': { type: 'boolean', default: false },
+    },
+  });
+
+  const sources = [...(values.source ?? []), ...positionals];
+  if (values.category && !isKnowledgeCategory(values.category)) {
+    throw new Error(unknownCategoryError(values.category));
+  }
+
+  return {
+    sources: sources.length > 0 ? sources : [SAMPLES_SOURCE],
+    indexName: values.tenant ? tenantIndexName(values.tenant, values.index!) : physicalIndexName(values.index!),
+    loader: {
+      defaultCategory: values.category,
+      classifier: values.classify ? createCategoryClassifier(values.classify) : undefined,
+      fieldMap: {
+        ...(values['title-field'] ? { title: values['title-field'] } : {}),
+        ...(values['content-field'] ? { content: values['content-field'] } : {}),
+        ...(values['category-field'] ? { category: values['category-field'] } : {}),
+        ...(values['tags-field'] ? { tags: values['tags-field'] } : {}),
+        ...(values['id-field'] ? { id: values['id-field'] } : {}),
+        ...(values['allowed-users-field'] ? { allowedUsers: values['allowed-users-field'] } : {}),
+        ...(values['allowed-groups-field'] ? { allowedGroups: values['allowed-groups-field'] } : {}),
+      },
+      defaultAccess: {
+        allowedUsers: parseGroups(values['allowed-users']),
+        allowedGroups: parseGroups(values['allowed-groups']),
+      },
+    } satisfies LoaderOptions,
+    batchSize: Number(values['batch-size']),
+    // The in-memory store starts empty on every run, so a checkpoint would skip everything
+    checkpointPath:
+      values['no-checkpoint'] || vectorStoreConfig.provider === 'memory' ? (false as const) : values.checkpoint!,
+  };
+}
+
+/**
+ * Collects documents from every source. Unreadable files are reported and skipped.
+ */
+async function collectDocuments(sources: string[], loader: LoaderOptions) {
+  const documents: IngestDocument[] = [];
+
+  for (const source of sources) {
+    if (source === SAMPLES_SOURCE) {
+      // Sample documents are keyed by title so editing one updates it in place
+      documents.push(
+        ...sampleDocuments.map((doc) => ({ ...doc, ...loader.defaultAccess, source: `${SAMPLES_SOURCE}:${doc.title}` })),
+      );
+      console.log(`  ${colors.green}✓${colors.reset} ${source}: ${sampleDocuments.length} documents`);
+      continue;
+    }
+
+    const { documents: loaded, errors } = await loadDocuments(source, loader);
+    documents.push(...loaded);
+    console.log(`  ${colors.green}✓${colors.reset} ${source}: ${loaded.length} documents`);
+    errors.forEach(({ source: file, error }) =>
+      console.log(`    ${colors.yellow}⚠${colors.reset} ${file}: ${error}`),
+    );
+  }
+
+  return documents;
+}
 
 async function populateKnowledgeBase() {
+  const { sources, indexName, loader, batchSize, checkpointPath } = parseOptions();
+
   console.log(`\n${colors.cyan}📚 Populating Knowledge Base${colors.reset}\n`);
+  console.log(
+    `  Embedder: ${embeddingProvider.name} (${embeddingProvider.modelId}, ${embeddingProvider.dimension} dimensions)\n`,
+  );
 
   // Check configuration
-  if (!process.env.AZURE_AI_SEARCH_ENDPOINT || !process.env.AZURE_AI_SEARCH_CREDENTIAL) {
-    console.log(
-      `${colors.yellow}⚠ Error: Please configure Azure AI Search environment variables${colors.reset}\n`,
-    );
+  const storeError = vectorStoreConfigurationError();
+  if (storeError) {
+    console.log(`${colors.yellow}⚠ Error: ${storeError}${colors.reset}\n`);
     process.exit(1);
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    console.log(
-      `${colors.yellow}⚠ Error: Please configure OPENAI_API_KEY to generate embeddings${colors.reset}\n`,
-    );
+  const embeddingError = embeddingProvider.configurationError();
+  if (embeddingError) {
+    console.log(`${colors.yellow}⚠ Error: ${embeddingError}${colors.reset}\n`);
     process.exit(1);
   }
 
-  const vectorStore = new AzureAISearchVector({
-    id: 'knowledge-base-populator',
-    endpoint: process.env.AZURE_AI_SEARCH_ENDPOINT,
-    credential: process.env.AZURE_AI_SEARCH_CREDENTIAL,
-  });
-
-  const indexName = 'knowledge-base';
+  const vectorStore = createVectorStore('knowledge-base-populator');
 
   try {
+    // 0. Load documents from the sources
+    console.log(`${colors.blue}→${colors.reset} Loading documents...`);
+    const documents = await collectDocuments(sources, loader);
+
+    if (documents.length === 0) {
+      console.log(`\n${colors.yellow}⚠ No documents to index${colors.reset}\n`);
+      process.exit(1);
+    }
+    console.log();
+
     // 1. Create index
     console.log(`${colors.blue}→${colors.reset} Creating index '${indexName}'...`);
 
-    try {
+    const indexExists = (await vectorStore.listIndexes()).includes(indexName);
+    if (indexExists) {
+      await assertIndexDimension(vectorStore, indexName);
+      console.log(`${colors.yellow}ℹ${colors.reset} Index already exists, continuing...\n`);
+    } else {
       await vectorStore.createIndex({
         indexName,
-        dimension: 1536,
+        dimension: embeddingProvider.dimension,
         metric: 'cosine',
       });
+      forgetIndexDimension(vectorStore, indexName);
       console.log(`${colors.green}✓${colors.reset} Index created successfully\n`);
-    } catch (error: any) {
-      if (error?.message?.includes('already exists')) {
-        console.log(`${colors.yellow}ℹ${colors.reset} Index already exists, continuing...\n`);
-      } else {
-        throw error;
-      }
     }
 
-    // 2. Generate embeddings and insert documents
+    // 2. Chunk, embed and insert documents in batches
     console.log(
-      `${colors.blue}→${colors.reset} Generating embeddings for ${sampleDocuments.length} documents...`,
+      `${colors.blue}→${colors.reset} Indexing ${documents.length} documents in batches of ${batchSize}...`,
     );
 
-    const embeddings: number[][] = [];
-
-    for (let i = 0; i < sampleDocuments.length; i++) {
-      const doc = sampleDocuments[i];
-      process.stdout.write(`\r  Processing document ${i + 1}/${sampleDocuments.length}...`);
-
-      const { embedding } = await embed({
-        model: openai.embedding('text-embedding-3-small'),
-        value: `${doc.title}\n${doc.content}`,
-      });
-
-      embeddings.push(embedding);
-
-      // Small pause to avoid saturating the API
-      await new Promise((resolve) => setTimeout(resolve, 200));
-    }
-
-    console.log(`\n${colors.green}✓${colors.reset} Embeddings generated\n`);
-
-    // 3. Insert into vector store
-    console.log(`${colors.blue}→${colors.reset} Inserting documents into the index...`);
-
-    const metadata = sampleDocuments.map((doc) => ({
-      title: doc.title,
-      content: doc.content,
-      category: doc.category,
-      tags: doc.tags,
-      timestamp: new Date().toISOString(),
-    }));
-
-    await vectorStore.upsert({
+    const summary = await ingestDocuments(vectorStore, documents, {
       indexName,
-      vectors: embeddings,
-      metadata,
+      batchSize,
+      checkpointPath,
+      // A new index holds none of the documents the checkpoint remembers
+      resetCheckpoint: !indexExists,
+      retry: {
+        onRetry: ({ attempt, delayMs }) =>
+          console.log(
+            `\n  ${colors.yellow}ℹ${colors.reset} Rate limited, retry ${attempt} in ${Math.round(delayMs)}ms`,
+          ),
+      },
+      onBatch: ({ batch, totalBatches, chunks }) =>
+        process.stdout.write(`\r  Batch ${batch}/${totalBatches} indexed (${chunks} chunks)...`),
+      onBatchError: ({ batch, error }) =>
+        console.log(
+          `\n  ${colors.yellow}⚠${colors.reset} Batch ${batch} failed: ${(error as Error)?.message ?? error}`,
+        ),
     });
 
-    console.log(`${colors.green}✓${colors.reset} Documents inserted successfully\n`);
+    console.log(`\n${colors.green}✓${colors.reset} Indexing finished (${summary.chunks} chunks)\n`);
+
+    // 3. Ingestion summary
+    console.log(`${colors.cyan}🧾 Ingestion Summary:${colors.reset}`);
+    console.log(`  Created: ${summary.created.length}`);
+    console.log(`  Updated: ${summary.updated.length}`);
+    console.log(`  Skipped (unchanged): ${summary.skipped.length}`);
+    console.log(`  Failed: ${summary.failed.length}`);
+    summary.failed.forEach(({ title, error }) => console.log(`    - ${title}: ${error}`));
+
+    const cache = embeddingCache.stats();
+    console.log(
+      `  Embedding cache: ${cache.memoryHits + cache.persistentHits} texts reused, ${cache.misses} embedded` +
+        (cache.persistent ? ` (${cache.persistentHits} from the persistent cache)` : ' (no persistent cache, set EMBEDDING_CACHE_URL)'),
+    );
+    console.log();
 
     // 4. Wait for indexing
     console.log(`${colors.blue}→${colors.reset} Waiting for indexing...`);
@@ -196,7 +264,7 @@ async function populateKnowledgeBase() {
     console.log(`  Metric: ${stats.metric}`);
 
     // 6. Summary by categories
-    const categoryCounts = sampleDocuments.reduce((acc, doc) => {
+    const categoryCounts = documents.reduce((acc, doc) => {
       acc[doc.category] = (acc[doc.category] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
@@ -206,11 +274,26 @@ async function populateKnowledgeBase() {
       console.log(`  ${category}: ${count} documents`);
     });
 
+    const toReview = documents.filter((doc) => doc.needsReview);
+    if (toReview.length > 0) {
+      console.log(`\n${colors.yellow}⚠ ${toReview.length} documents have a low-confidence category (needsReview):${colors.reset}`);
+      toReview.forEach((doc) =>
+        console.log(`  ${doc.title}: ${doc.category} (${(doc.categoryConfidence ?? 0).toFixed(2)})`),
+      );
+    }
+
+    if (summary.failed.length > 0) {
+      console.log(
+        `\n${colors.yellow}⚠ ${summary.failed.length} documents failed. Run the script again to retry them.${colors.reset}\n`,
+      );
+      process.exit(1);
+    }
+
     console.log(
       `\n${colors.green}✅ Knowledge base populated successfully!${colors.reset}\n`,
     );
-    console.log(`${colors.cyan}💡 Next step:${colors.reset} Run the agent with:`);
-    console.log(`  ${colors.blue}npm run demo:agent${colors.reset}\n`);
+    console.log(`${colors.cyan}💡 Next step:${colors.reset} Chat with the agent in the Mastra playground:`);
+    console.log(`  ${colors.blue}npm run dev${colors.reset}\n`);
   } catch (error: any) {
     console.error(`\n${colors.yellow}❌ Error:${colors.reset}`, error.message);
     console.error(error);
@@ -218,5 +301,8 @@ async function populateKnowledgeBase() {
   }
 }
 
-// Run
-populateKnowledgeBase();
+// Run; invalid options are reported like any other error
+populateKnowledgeBase().catch((error) => {
+  console.error(`\n${colors.yellow}❌ Error:${colors.reset}`, error.message);
+  process.exit(1);
+});
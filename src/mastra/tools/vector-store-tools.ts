@@ -1,143 +1,553 @@
 /**
- * Tools for Azure AI Search Vector Store
+ * Tools for the knowledge base vector store
  *
  * These tools allow an agent to interact with the vector store:
- * - Search documents by semantic similarity
- * - Insert new documents
+ * - Search documents by semantic similarity, keywords, or both (hybrid),
+ *   optionally filtered by metadata, reranked and personalized with the
+ *   user profile kept in working memory (see ../rag/retrieval)
+ * - Insert new documents, after checking the index for near-duplicates;
+ *   replacing or merging into a duplicate needs write access
+ * - Update and delete documents, or delete a whole index (write access only)
  * - List available indexes
+ *
+ * Index names are resolved in the caller's tenant namespace (see
+ * ../rag/tenancy), so a tool never reaches another tenant's index.
+ * Documents restricted to other users or groups (see ../rag/access-control)
+ * are dropped as soon as they are retrieved, before reranking, and never
+ * appear in a tool result.
  */
 
 import { createTool } from '@mastra/core/tools';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
 import { z } from 'zod';
-import { openai } from '@ai-sdk/openai';
-import { embed } from 'ai';
-import { AzureAISearchVector } from '@mastra/aisearch';
-
-// Configure the vector store
-const vectorStore = new AzureAISearchVector({
-  id: 'knowledge-base',
-  endpoint: process.env.AZURE_AI_SEARCH_ENDPOINT || '',
-  credential: process.env.AZURE_AI_SEARCH_CREDENTIAL || '',
+import { knowledgeCategorySchema } from '../rag/categories';
+import { suggestCategory } from '../rag/classification';
+import { assertIndexDimension, embeddingProvider, embedTexts, forgetIndexDimension } from '../rag/embeddings';
+import { duplicateThreshold, findDuplicates } from '../rag/duplicates';
+import { embeddingCache } from '../rag/embedding-cache';
+import { chunkingOptionsSchema } from '../rag/chunking';
+import {
+  createRetriever,
+  searchRequestSchema,
+  searchToolOutputSchema,
+  type RetrieverOptions,
+  type SearchToolOutput,
+} from '../rag/retrieval';
+import { createVectorStore, knowledgeIndexName } from '../rag/vector-store';
+import { resolveIndexName, visibleIndexes } from '../rag/tenancy';
+import { callerFromContext, canAccess, filterAccessible } from '../rag/access-control';
+import {
+  assertValidDocumentId,
+  compareWithStored,
+  DOCUMENT_ID_PATTERN,
+  deleteDocument,
+  documentIdFor,
+  findDocuments,
+  findStoredVersion,
+  prepareDocument,
+  suggestTitles,
+  updateDocument,
+  writeDocument,
+  type DocumentFields,
+  type StoredDocument,
+} from '../rag/documents';
+
+// Configure the vector store (backend chosen by VECTOR_STORE_PROVIDER)
+const vectorStore = createVectorStore('knowledge-base');
+
+/**
+ * Options of the search tool factory
+ */
+export type SearchToolOptions = RetrieverOptions;
+
+/**
+ * Creates the knowledge base search tool of an agent. Every search goes
+ * through the retrieval service (../rag/retrieval), configured with the
+ * agent's categories, reranker and default result format.
+ */
+export const createSearchDocumentsTool = (options: SearchToolOptions = {}) => {
+  const retriever = createRetriever(options);
+
+  return createTool({
+    id: 'search-documents',
+    description:
+      'Searches the knowledge base. Hybrid mode (default) combines semantic search, which matches the meaning of the query, with keyword search, which matches exact terms such as product names, error codes or acronyms. Add a metadata filter when the question is about a category, tags or an indexing period. Choose the format by need: full passages to answer from, snippets around the query terms to skim many results, or IDs only to list or pick documents.',
+    inputSchema: searchRequestSchema,
+    outputSchema: searchToolOutputSchema,
+    execute: async ({ context, runtimeContext, memory, threadId, resourceId }): Promise<SearchToolOutput> => {
+      try {
+        return {
+          success: true,
+          ...(await retriever.search(context, { runtimeContext, memory, threadId, resourceId, tool: 'search-documents' })),
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Error while searching documents',
+        };
+      }
+    },
+  });
+};
+
+export const searchDocumentsTool = createSearchDocumentsTool();
+
+/**
+ * Input shared by the tools that act on a single existing document
+ */
+const documentLookupSchema = z.object({
+  documentId: z.string().optional().describe('ID of the document (preferred when known)'),
+  title: z.string().optional().describe('Exact title of the document, used when the ID is unknown'),
+  indexName: z.string().default(knowledgeIndexName).describe('Index name'),
 });
 
 /**
- * Tool to search documents by semantic similarity
+ * Finds the single document targeted by an ID or title. When the title
+ * matches several documents, or none, the returned error lets the agent
+ * disambiguate. Documents the caller may not read are reported as missing.
  */
-export const searchDocumentsTool = createTool({
-  id: 'search-documents',
+async function resolveDocument(
+  indexName: string,
+  { documentId, title }: { documentId?: string; title?: string },
+  { runtimeContext, tool }: { runtimeContext?: RuntimeContext; tool: string },
+): Promise<{ document: StoredDocument } | { error: Record<string, unknown> }> {
+  if (!documentId && !title) {
+    return { error: { success: false, error: 'Provide either documentId or title' } };
+  }
+
+  const matches = await filterAccessible(await findDocuments(vectorStore, indexName, { documentId, title }), {
+    runtimeContext,
+    metadataOf: (doc) => ({ ...doc }),
+    idOf: (doc) => doc.documentId,
+    audit: { tool, indexName, query: documentId ?? title },
+  });
+
+  if (matches.length === 0) {
+    const caller = callerFromContext(runtimeContext);
+    return {
+      error: {
+        success: false,
+        error: documentId ? `No document with ID '${documentId}'` : `No document titled '${title}'`,
+        suggestions: title
+          ? await suggestTitles(vectorStore, indexName, title, undefined, (r) => canAccess(r.metadata, caller))
+          : undefined,
+      },
+    };
+  }
+
+  if (matches.length > 1) {
+    return {
+      error: {
+        success: false,
+        ambiguous: true,
+        error: `${matches.length} documents are titled '${title}'. Ask the user which one and retry with its documentId.`,
+        candidates: matches.map((doc) => ({
+          documentId: doc.documentId,
+          title: doc.title,
+          category: doc.category,
+          tags: doc.tags,
+          timestamp: doc.timestamp,
+          snippet: String(doc.chunks[0]?.metadata?.content ?? '').substring(0, 200),
+        })),
+      },
+    };
+  }
+
+  return { document: matches[0] };
+}
+
+/**
+ * Options of the add-document tool factory
+ */
+export interface AddDocumentToolOptions {
+  /** Allows onDuplicate replace and merge, which overwrite an indexed document */
+  writeAccess?: boolean;
+}
+
+/**
+ * Creates the tool to insert new documents. Without write access, near-
+ * duplicates can only be skipped or added alongside; with it, replacing or
+ * merging into a duplicate also requires confirm: true.
+ */
+export const createAddDocumentTool = ({ writeAccess = false }: AddDocumentToolOptions = {}) => {
+  return createTool({
+    id: 'add-document',
+    description:
+      'Adds a document to the knowledge base, or updates it if a document with the same ID exists. Long documents are split into chunks that are indexed separately for semantic search. Without a category, one is suggested automatically; low-confidence suggestions are flagged for review. Before writing, the index is checked for near-duplicates: if any are found nothing is written and they are returned, ' +
+      (writeAccess
+        ? 'so you can ask the user whether to skip the new document, replace a duplicate with it, merge both into the duplicate, or add it anyway, then call again with onDuplicate (and duplicateId for replace or merge). Replace and merge overwrite the duplicate and require confirm: true, which must only be set after the user explicitly confirmed. '
+        : 'so you can ask the user whether to skip the new document or add it anyway, then call again with onDuplicate. ') +
+      'Reports whether the document was created, updated, left unchanged, or skipped.',
+    inputSchema: z.object({
+      id: z
+        .string()
+        .regex(DOCUMENT_ID_PATTERN)
+        .optional()
+        .describe('Stable document ID (letters, digits, _, -, =). Derived from the content when omitted'),
+      title: z.string().describe('Document title'),
+      content: z
+        .string()
+        .describe('Document content; with onDuplicate "merge", the merged text of the duplicate and the new document'),
+      category: knowledgeCategorySchema
+        .optional()
+        .describe('Document category; classified automatically when omitted'),
+      indexName: z.string().default(knowledgeIndexName).describe('Index name'),
+      tags: z.array(z.string()).optional().describe('Additional tags; suggested with the category when both are omitted'),
+      allowedUsers: z.array(z.string()).optional().describe('Users allowed to read the document (public when no users or groups are set)'),
+      allowedGroups: z.array(z.string()).optional().describe('Groups allowed to read the document'),
+      chunking: chunkingOptionsSchema.partial().optional().describe('Chunking strategy, size and overlap'),
+      onDuplicate: z
+        .enum(['skip', 'replace', 'merge', 'add'])
+        .optional()
+        .describe(
+          'What to do with near-duplicates, once the user decided: skip (write nothing), replace (the duplicate gets this title and content), merge (the duplicate keeps its title, category and access, gets the merged content and both sets of tags), add (index as a separate document). Replace and merge need write access. Omit on the first call.',
+        ),
+      duplicateId: z.string().optional().describe('documentId of the duplicate to replace or merge into'),
+      confirm: z
+        .boolean()
+        .default(false)
+        .describe('Must be true to replace or merge. Only set it after the user has confirmed'),
+      duplicateThreshold: z
+        .number()
+        .min(0)
+        .max(1)
+        .default(duplicateThreshold)
+        .describe('Similarity from which another document counts as a near-duplicate'),
+    }),
+    execute: async ({ context, runtimeContext }) => {
+      try {
+        const { id, title, content, allowedUsers, allowedGroups, chunking, onDuplicate, duplicateId, confirm } = context;
+        const indexName = resolveIndexName(runtimeContext, context.indexName);
+
+        const configurationError = embeddingProvider.configurationError();
+        if (configurationError) {
+          return {
+            success: false,
+            error: configurationError,
+          };
+        }
+
+        if (onDuplicate === 'skip') {
+          return {
+            success: true,
+            message: 'Document skipped, nothing was written',
+            status: 'skipped',
+            title,
+          };
+        }
+
+        await assertIndexDimension(vectorStore, indexName);
+
+        // The duplicate keeps its ID; replace and merge also keep its access lists unless new ones are given
+        let target: StoredDocument | undefined;
+        if (onDuplicate === 'replace' || onDuplicate === 'merge') {
+          if (!writeAccess) {
+            return {
+              success: false,
+              error: `onDuplicate '${onDuplicate}' overwrites an indexed document and needs write access. Ask the user whether to skip the document or add it anyway.`,
+            };
+          }
+          if (!duplicateId) {
+            return { success: false, error: `onDuplicate '${onDuplicate}' needs the duplicateId of the document to ${onDuplicate}` };
+          }
+          const resolved = await resolveDocument(indexName, { documentId: duplicateId }, { runtimeContext, tool: 'add-document' });
+          if ('error' in resolved) return resolved.error;
+          target = resolved.document;
+        }
+
+        const classification =
+          context.category || target ? undefined : await suggestCategory({ title, content });
+        const category = context.category ?? target?.category ?? classification!.category;
+        const suggestedTags = classification?.tags.length ? classification.tags : undefined;
+
+        const document: DocumentFields =
+          onDuplicate === 'merge'
+            ? {
+                title: target!.title,
+                content,
+                category: context.category ?? target!.category,
+                tags: [...new Set([...(target!.tags ?? []), ...(context.tags ?? [])])],
+                allowedUsers: allowedUsers ?? target!.allowedUsers,
+                allowedGroups: allowedGroups ?? target!.allowedGroups,
+              }
+            : {
+                title,
+                content,
+                category,
+                tags: context.tags ?? suggestedTags ?? target?.tags,
+                allowedUsers: allowedUsers ?? target?.allowedUsers,
+                allowedGroups: allowedGroups ?? target?.allowedGroups,
+                needsReview: classification?.needsReview,
+                categoryConfidence: classification?.confidence,
+              };
+
+        const documentId = target?.documentId ?? id ?? documentIdFor(document);
+        assertValidDocumentId(documentId);
+
+        const prepared = prepareDocument(documentId, document, chunking);
+        if (prepared.ids.length === 0) {
+          return { success: false, error: 'Document content is empty' };
+        }
+
+        if (target && !confirm) {
+          return {
+            success: false,
+            requiresConfirmation: true,
+            message:
+              onDuplicate === 'merge'
+                ? `Merging into '${target.title}' (${target.documentId}) overwrites its content with the merged text. Ask the user to confirm, then call again with confirm: true.`
+                : `Replacing '${target.title}' (${target.documentId}) overwrites its title and content with '${title}'. Ask the user to confirm, then call again with confirm: true.`,
+            documentId,
+            title: target.title,
+          };
+        }
+        // Unchanged documents and metadata-only changes need no embeddings, nor a duplicate check
+        const previous = await findStoredVersion(vectorStore, indexName, documentId, target?.title ?? document.title);
+        const change = compareWithStored(previous, prepared);
+        const vectors = change === 'new' || change === 'content' ? await embedTexts(prepared.texts) : [];
+
+        if (!onDuplicate && vectors.length > 0) {
+          const duplicates = await findDuplicates(vectorStore, {
+            indexName,
+            documentId,
+            contentHash: prepared.contentHash,
+            queryVector: vectors[0],
+            threshold: context.duplicateThreshold,
+            runtimeContext,
+            tool: 'add-document',
+          });
+
+          if (duplicates.length > 0) {
+            return {
+              success: false,
+              duplicatesFound: true,
+              message: writeAccess
+                ? `Nothing was written: '${title}' looks like ${duplicates.length} indexed document(s). Ask the user whether to skip it, replace or merge into one of them, or add it anyway, then call add-document again with onDuplicate (and duplicateId for replace or merge).`
+                : `Nothing was written: '${title}' looks like ${duplicates.length} indexed document(s). Ask the user whether to skip it or add it anyway, then call add-document again with onDuplicate.`,
+              title,
+              duplicates: duplicates.map((duplicate) => ({ ...duplicate, score: duplicate.score.toFixed(3) })),
+            };
+          }
+        }
+
+        // Upserts under stable chunk IDs, skipping the write if nothing changed
+        const { status, chunkCount } = await writeDocument(vectorStore, indexName, documentId, prepared, previous, vectors);
+
+        const messages = {
+          created: 'Document added successfully',
+          updated: target ? `Duplicate '${target.title}' ${onDuplicate === 'merge' ? 'merged' : 'replaced'}` : 'Existing document updated',
+          unchanged: 'Document already indexed with the same content, nothing to do',
+        };
+
+        return {
+          success: true,
+          message: messages[status],
+          status,
+          documentId,
+          chunkCount,
+          title: document.title,
+          category: document.category,
+          tags: document.tags,
+          ...(classification
+            ? {
+                classification: {
+                  classifier: classification.classifier,
+                  confidence: classification.confidence.toFixed(2),
+                  needsReview: classification.needsReview,
+                },
+                ...(classification.needsReview
+                  ? { reviewNote: `The category '${category}' is a low-confidence guess; ask the user to confirm it` }
+                  : {}),
+              }
+            : {}),
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Error while adding document',
+        };
+      }
+    },
+  });
+};
+
+export const addDocumentTool = createAddDocumentTool();
+
+/**
+ * Tool to update an existing document
+ */
+export const updateDocumentTool = createTool({
+  id: 'update-document',
   description:
-    'Searches documents in the knowledge base using semantic search. Finds relevant documents based on the meaning of the query, not just keywords.',
-  inputSchema: z.object({
-    query: z.string().describe('The natural language search query'),
-    indexName: z.string().default('knowledge-base').describe('Name of the index to search in'),
-    topK: z.number().default(5).describe('Number of results to return'),
+    'Updates an existing document in the knowledge base, found by ID or exact title. Only the provided fields change. Embeddings are recomputed only when the content changes.',
+  inputSchema: documentLookupSchema.extend({
+    newTitle: z.string().optional().describe('New title'),
+    content: z.string().optional().describe('New full content'),
+    category: knowledgeCategorySchema.optional().describe('New category (also clears the review flag of a classified category)'),
+    tags: z.array(z.string()).optional().describe('New tags (replaces the current ones)'),
+    allowedUsers: z.array(z.string()).optional().describe('New allowed users (replaces the current ones; [] removes them)'),
+    allowedGroups: z.array(z.string()).optional().describe('New allowed groups (replaces the current ones; [] removes them)'),
+    chunking: chunkingOptionsSchema.partial().optional().describe('Chunking used if the content changes'),
   }),
-  execute: async ({ context }) => {
+  execute: async ({ context, runtimeContext }) => {
     try {
-      const { query, indexName, topK } = context;
+      const { documentId, title, newTitle, content, category, tags, allowedUsers, allowedGroups, chunking } = context;
+      const indexName = resolveIndexName(runtimeContext, context.indexName);
+
+      const configurationError = embeddingProvider.configurationError();
+      if (configurationError) {
+        return {
+          success: false,
+          error: configurationError,
+        };
+      }
 
-      // Generate embedding for the query
-      if (!process.env.OPENAI_API_KEY) {
+      const changes = { title: newTitle, content, category, tags, allowedUsers, allowedGroups };
+      if (Object.values(changes).every((value) => value === undefined)) {
         return {
           success: false,
-          error: 'OpenAI API key is not configured',
+          error: 'Nothing to update: provide newTitle, content, category, tags, allowedUsers or allowedGroups',
         };
       }
 
-      const { embedding } = await embed({
-        model: openai.embedding('text-embedding-3-small'),
-        value: query,
-      });
+      await assertIndexDimension(vectorStore, indexName);
+
+      const resolved = await resolveDocument(indexName, { documentId, title }, { runtimeContext, tool: 'update-document' });
+      if ('error' in resolved) return resolved.error;
 
-      // Search in the vector store (no OData filters, metadata is JSON)
-      const results = await vectorStore.query({
+      const result = await updateDocument(
+        vectorStore,
         indexName,
-        queryVector: embedding,
-        topK,
-      });
-
-      // Format results
-      const formattedResults = results.map((r, i) => ({
-        position: i + 1,
-        score: r.score?.toFixed(4),
-        title: r.metadata?.title || 'Untitled',
-        content: r.document || 'No content',
-        category: r.metadata?.category || 'No category',
-        metadata: r.metadata,
-      }));
+        resolved.document,
+        changes,
+        chunking,
+      );
 
       return {
         success: true,
-        query,
-        resultsCount: results.length,
-        results: formattedResults,
+        message: result.reembedded
+          ? 'Document content updated and re-embedded'
+          : 'Document metadata updated',
+        ...result,
+        title: newTitle ?? resolved.document.title,
       };
     } catch (error: any) {
       return {
         success: false,
-        error: error.message || 'Error while searching documents',
+        error: error.message || 'Error while updating document',
       };
     }
   },
 });
 
 /**
- * Tool to insert new documents
+ * Tool to delete a document
  */
-export const addDocumentTool = createTool({
-  id: 'add-document',
+export const deleteDocumentTool = createTool({
+  id: 'delete-document',
   description:
-    'Adds a new document to the knowledge base. The document will be indexed for semantic search.',
+    'Permanently deletes a document (all its chunks) from the knowledge base, found by ID or exact title. Requires confirm: true, which must only be set after the user explicitly confirmed the deletion.',
+  inputSchema: documentLookupSchema.extend({
+    confirm: z
+      .boolean()
+      .default(false)
+      .describe('Must be true to delete. Only set it after the user has confirmed'),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    try {
+      const { documentId, title, confirm } = context;
+      const indexName = resolveIndexName(runtimeContext, context.indexName);
+
+      const configurationError = embeddingProvider.configurationError();
+      if (configurationError) {
+        return {
+          success: false,
+          error: configurationError,
+        };
+      }
+
+      const resolved = await resolveDocument(indexName, { documentId, title }, { runtimeContext, tool: 'delete-document' });
+      if ('error' in resolved) return resolved.error;
+
+      const { document } = resolved;
+
+      if (!confirm) {
+        return {
+          success: false,
+          requiresConfirmation: true,
+          message: `Deleting '${document.title}' (${document.documentId}) cannot be undone. Ask the user to confirm, then call again with confirm: true.`,
+          documentId: document.documentId,
+          title: document.title,
+        };
+      }
+
+      const deletedChunks = await deleteDocument(vectorStore, indexName, document);
+
+      return {
+        success: true,
+        message: 'Document deleted',
+        documentId: document.documentId,
+        title: document.title,
+        deletedChunks,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Error while deleting document',
+      };
+    }
+  },
+});
+
+/**
+ * Tool to delete a whole index (opt-in)
+ */
+export const deleteIndexTool = createTool({
+  id: 'delete-index',
+  description:
+    'Permanently deletes an entire index and every document in it. Requires confirm: true and the index name repeated in confirmIndexName, which must only be set after the user explicitly confirmed.',
   inputSchema: z.object({
-    title: z.string().describe('Document title'),
-    content: z.string().describe('Document content'),
-    category: z.string().describe('Document category (e.g., technology, science, business)'),
-    indexName: z.string().default('knowledge-base').describe('Index name'),
-    tags: z.array(z.string()).optional().describe('Additional tags'),
+    indexName: z.string().describe('Index to delete'),
+    confirmIndexName: z.string().optional().describe('The index name again, as confirmation'),
+    confirm: z
+      .boolean()
+      .default(false)
+      .describe('Must be true to delete. Only set it after the user has confirmed'),
   }),
-  execute: async ({ context }) => {
+  execute: async ({ context, runtimeContext }) => {
     try {
-      const { title, content, category, indexName, tags } = context;
+      const { indexName, confirmIndexName, confirm } = context;
+      const index = resolveIndexName(runtimeContext, indexName);
 
-      if (!process.env.OPENAI_API_KEY) {
+      const indexes = await vectorStore.listIndexes();
+      if (!indexes.includes(index)) {
         return {
           success: false,
-          error: 'OpenAI API key is not configured',
+          error: `Index '${indexName}' does not exist`,
         };
       }
 
-      // Generate embedding for the content
-      const { embedding } = await embed({
-        model: openai.embedding('text-embedding-3-small'),
-        value: `${title}\n${content}`,
-      });
+      if (!confirm || confirmIndexName !== indexName) {
+        const stats = await vectorStore.describeIndex({ indexName: index });
+        return {
+          success: false,
+          requiresConfirmation: true,
+          message: `Deleting index '${indexName}' removes ${stats.count} vectors and cannot be undone. Ask the user to confirm, then call again with confirm: true and confirmIndexName: '${indexName}'.`,
+        };
+      }
 
-      // Insert into the vector store
-      const [documentId] = await vectorStore.upsert({
-        indexName,
-        vectors: [embedding],
-        metadata: [
-          {
-            title,
-            content,
-            category,
-            tags: tags || [],
-            timestamp: new Date().toISOString(),
-          },
-        ],
-      });
+      await vectorStore.deleteIndex({ indexName: index });
+      forgetIndexDimension(vectorStore, index);
 
       return {
         success: true,
-        message: 'Document added successfully',
-        documentId,
-        title,
-        category,
+        message: `Index '${indexName}' deleted`,
+        indexName,
       };
     } catch (error: any) {
       return {
         success: false,
-        error: error.message || 'Error while adding document',
+        error: error.message || 'Error while deleting index',
       };
     }
   },
@@ -148,11 +558,11 @@ export const addDocumentTool = createTool({
  */
 export const listIndexesTool = createTool({
   id: 'list-indexes',
-  description: 'Lists all available indexes in the vector store',
+  description: 'Lists the indexes available to the caller in the vector store',
   inputSchema: z.object({}),
-  execute: async () => {
+  execute: async ({ runtimeContext }) => {
     try {
-      const indexes = await vectorStore.listIndexes();
+      const indexes = visibleIndexes(runtimeContext, await vectorStore.listIndexes());
 
       return {
         success: true,
@@ -173,15 +583,15 @@ export const listIndexesTool = createTool({
  */
 export const getIndexStatsTool = createTool({
   id: 'get-index-stats',
-  description: 'Gets statistics for a specific index (document count, dimension, etc.)',
+  description: 'Gets statistics for a specific index (document count, dimension, etc.) and the embedding cache hit rate',
   inputSchema: z.object({
-    indexName: z.string().default('knowledge-base').describe('Index name'),
+    indexName: z.string().default(knowledgeIndexName).describe('Index name'),
   }),
-  execute: async ({ context }) => {
+  execute: async ({ context, runtimeContext }) => {
     try {
       const { indexName } = context;
 
-      const stats = await vectorStore.describeIndex({ indexName });
+      const stats = await vectorStore.describeIndex({ indexName: resolveIndexName(runtimeContext, indexName) });
 
       return {
         success: true,
@@ -189,6 +599,13 @@ export const getIndexStatsTool = createTool({
         documentCount: stats.count,
         dimension: stats.dimension,
         metric: stats.metric,
+        embedder: {
+          provider: embeddingProvider.name,
+          model: embeddingProvider.modelId,
+          dimension: embeddingProvider.dimension,
+          matchesIndex: embeddingProvider.dimension === stats.dimension,
+        },
+        embeddingCache: embeddingCache.stats(),
       };
     } catch (error: any) {
       return {
@@ -199,67 +616,13 @@ export const getIndexStatsTool = createTool({
   },
 });
 
-/**
- * Tool for searching with advanced filters
- * Note: Filters on metadata do not work because it is a JSON string
- */
-export const searchWithFiltersTool = createTool({
-  id: 'search-with-filters',
-  description:
-    'Semantic search in the knowledge base. You can search for information on different topics.',
-  inputSchema: z.object({
-    query: z.string().describe('Search query'),
-    indexName: z.string().default('knowledge-base').describe('Index name'),
-    topK: z.number().default(5).describe('Number of results'),
-  }),
-  execute: async ({ context }) => {
-    try {
-      const { query, indexName, topK } = context;
-
-      if (!process.env.OPENAI_API_KEY) {
-        return {
-          success: false,
-          error: 'OpenAI API key is not configured',
-        };
-      }
-
-      const { embedding } = await embed({
-        model: openai.embedding('text-embedding-3-small'),
-        value: query,
-      });
-
-      const results = await vectorStore.query({
-        indexName,
-        queryVector: embedding,
-        topK,
-      });
-
-      return {
-        success: true,
-        query,
-        resultsCount: results.length,
-        results: results.map((r, i) => ({
-          position: i + 1,
-          score: r.score?.toFixed(4),
-          title: r.metadata?.title,
-          content: (r.document || '').substring(0, 200) + '...',
-          category: r.metadata?.category,
-        })),
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.message || 'Error while searching',
-      };
-    }
-  },
-});
-
 // Export all tools
 export const vectorStoreTools = {
   searchDocumentsTool,
   addDocumentTool,
+  updateDocumentTool,
+  deleteDocumentTool,
+  deleteIndexTool,
   listIndexesTool,
   getIndexStatsTool,
-  searchWithFiltersTool,
 };
@@ -0,0 +1,368 @@
+/**
+ * Document ingestion workflow
+ *
+ * Indexes one document through reviewable steps:
+ * normalize → chunk → classify → dedupe → approve → embed → upsert
+ *
+ * - classify suggests the category (with a confidence) and tags the input
+ *   leaves out, see ../rag/classification
+ * - dedupe reports other documents with the same or nearly the same content
+ * - approve suspends the run until a reviewer resumes it with
+ *   `{ approved: true | false }`, optionally correcting the category or
+ *   tags; with `requireApproval: false` it only suspends when duplicates
+ *   were found or the category is a low-confidence guess. A rejected
+ *   document ends the run with status `rejected`.
+ * - embed only embeds the chunks when the document is new or its content
+ *   changed; unchanged documents and metadata-only changes reuse the stored
+ *   vectors
+ *
+ * The index name is resolved in the caller's tenant namespace, and
+ * duplicates the caller may not read are left out of the review.
+ */
+
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { chunkDocument, chunkEmbeddingText, chunkingOptionsSchema } from '../rag/chunking';
+import { knowledgeCategorySchema } from '../rag/categories';
+import { suggestCategory } from '../rag/classification';
+import {
+  assertValidDocumentId,
+  compareWithStored,
+  contentHashFor,
+  describeChunks,
+  DOCUMENT_ID_PATTERN,
+  documentIdFor,
+  findStoredVersion,
+  writeDocument,
+} from '../rag/documents';
+import { duplicateThreshold, findDuplicates } from '../rag/duplicates';
+import { assertIndexDimension, embeddingProvider, embedText, embedTexts } from '../rag/embeddings';
+import { resolveIndexName } from '../rag/tenancy';
+import { createVectorStore, knowledgeIndexName } from '../rag/vector-store';
+
+const vectorStore = createVectorStore('knowledge-base');
+
+const ingestInputSchema = z.object({
+  id: z
+    .string()
+    .regex(DOCUMENT_ID_PATTERN)
+    .optional()
+    .describe('Stable document ID (letters, digits, _, -, =). Derived from the source or content when omitted'),
+  title: z.string().min(1).describe('Document title'),
+  content: z.string().min(1).describe('Document content'),
+  category: knowledgeCategorySchema.optional().describe('Document category; classified when omitted'),
+  tags: z.array(z.string()).optional().describe('Document tags; suggested with the category when omitted'),
+  source: z.string().optional().describe('Where the document comes from; also the key for its ID'),
+  allowedUsers: z.array(z.string()).optional().describe('Users allowed to read the document'),
+  allowedGroups: z.array(z.string()).optional().describe('Groups allowed to read the document'),
+  indexName: z.string().default(knowledgeIndexName).describe('Index name'),
+  chunking: chunkingOptionsSchema.partial().optional().describe('Chunking strategy, size and overlap'),
+  duplicateThreshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(duplicateThreshold)
+    .describe('Similarity from which another document counts as a near-duplicate'),
+  requireApproval: z
+    .boolean()
+    .default(true)
+    .describe('Wait for a reviewer before indexing; when false, only documents with duplicates wait'),
+});
+
+const normalizedSchema = ingestInputSchema.omit({ id: true }).extend({
+  documentId: z.string(),
+  /** Index in the caller's tenant namespace */
+  physicalIndexName: z.string(),
+});
+
+const chunkSchema = z.object({
+  text: z.string(),
+  metadata: z.object({
+    parentId: z.string(),
+    chunkIndex: z.number(),
+    chunkCount: z.number(),
+    title: z.string(),
+    heading: z.string().optional(),
+  }),
+});
+
+const chunkedSchema = normalizedSchema.extend({
+  chunks: z.array(chunkSchema),
+});
+
+const classificationSchema = z.object({
+  classifier: z.enum(['llm', 'centroid']),
+  confidence: z.number(),
+  needsReview: z.boolean(),
+});
+
+const classifiedSchema = chunkedSchema.extend({
+  category: knowledgeCategorySchema,
+  tags: z.array(z.string()),
+  /** Set when the category was suggested rather than given */
+  classification: classificationSchema.optional(),
+});
+
+const duplicateSchema = z.object({
+  documentId: z.string(),
+  title: z.string(),
+  category: z.string().optional(),
+  score: z.number(),
+  exact: z.boolean(),
+});
+
+const dedupedSchema = classifiedSchema.extend({
+  duplicates: z.array(duplicateSchema),
+});
+
+const approvedSchema = dedupedSchema.extend({
+  approvedBy: z.enum(['reviewer', 'auto']),
+});
+
+const embeddedSchema = approvedSchema.extend({
+  ids: z.array(z.string()),
+  // Empty when the document keeps its stored vectors
+  vectors: z.array(z.array(z.number())),
+  previous: z.record(z.any()).optional(),
+  metadata: z.array(z.record(z.any())),
+  contentHash: z.string(),
+  metadataHash: z.string(),
+});
+
+const ingestResultSchema = z.object({
+  status: z.enum(['created', 'updated', 'unchanged', 'rejected']),
+  documentId: z.string(),
+  title: z.string(),
+  indexName: z.string(),
+  category: knowledgeCategorySchema.optional(),
+  tags: z.array(z.string()).optional(),
+  chunkCount: z.number().optional(),
+  duplicates: z.array(duplicateSchema),
+  reason: z.string().optional(),
+});
+
+/**
+ * Unicode NFC, Unix newlines, no trailing spaces and at most one blank line
+ * in a row, so the same text always gets the same content hash
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const normalizeDocument = createStep({
+  id: 'normalize-document',
+  description: 'Normalizes the text, derives the document ID and resolves the index',
+  inputSchema: ingestInputSchema,
+  outputSchema: normalizedSchema,
+  execute: async ({ inputData, runtimeContext }) => {
+    const configurationError = embeddingProvider.configurationError();
+    if (configurationError) throw new Error(configurationError);
+
+    const { id, ...document } = inputData;
+    const title = normalizeText(document.title).replace(/\s+/g, ' ');
+    const content = normalizeText(document.content);
+    if (!content) throw new Error('Document content is empty');
+
+    const documentId = id ?? documentIdFor({ title, content, source: document.source });
+    assertValidDocumentId(documentId);
+
+    const physicalIndexName = resolveIndexName(runtimeContext, document.indexName);
+    await assertIndexDimension(vectorStore, physicalIndexName);
+
+    return { ...document, title, content, documentId, physicalIndexName };
+  },
+});
+
+const splitIntoChunks = createStep({
+  id: 'chunk-document',
+  description: 'Splits the document into chunks',
+  inputSchema: normalizedSchema,
+  outputSchema: chunkedSchema,
+  execute: async ({ inputData }) => {
+    const chunks = chunkDocument(
+      { parentId: inputData.documentId, title: inputData.title, content: inputData.content },
+      inputData.chunking,
+    );
+    if (chunks.length === 0) throw new Error('Document content is empty');
+
+    return { ...inputData, chunks };
+  },
+});
+
+const suggestClassification = createStep({
+  id: 'classify-document',
+  description: 'Suggests the category and tags the input leaves out',
+  inputSchema: chunkedSchema,
+  outputSchema: classifiedSchema,
+  execute: async ({ inputData }) => {
+    if (inputData.category) {
+      return { ...inputData, category: inputData.category, tags: inputData.tags ?? [] };
+    }
+
+    const { category, tags, classifier, confidence, needsReview } = await suggestCategory(inputData);
+    return {
+      ...inputData,
+      category,
+      tags: inputData.tags ?? tags,
+      classification: { classifier, confidence, needsReview },
+    };
+  },
+});
+
+const findNearDuplicates = createStep({
+  id: 'dedupe-document',
+  description: 'Finds other documents with the same or nearly the same content',
+  inputSchema: classifiedSchema,
+  outputSchema: dedupedSchema,
+  execute: async ({ inputData, runtimeContext }) => {
+    const duplicates = await findDuplicates(vectorStore, {
+      indexName: inputData.physicalIndexName,
+      documentId: inputData.documentId,
+      contentHash: contentHashFor(inputData.content),
+      queryVector: await embedText(chunkEmbeddingText(inputData.chunks[0])),
+      threshold: inputData.duplicateThreshold,
+      runtimeContext,
+      tool: 'ingest-document-workflow',
+    });
+
+    return { ...inputData, duplicates };
+  },
+});
+
+const reviewDocument = createStep({
+  id: 'review-document',
+  description: 'Waits for a reviewer to approve the document, its classification and its duplicates',
+  inputSchema: dedupedSchema,
+  outputSchema: approvedSchema,
+  suspendSchema: z.object({
+    message: z.string(),
+    documentId: z.string(),
+    title: z.string(),
+    category: z.string(),
+    tags: z.array(z.string()),
+    classification: classificationSchema.optional(),
+    chunkCount: z.number(),
+    duplicates: z.array(duplicateSchema),
+  }),
+  resumeSchema: z.object({
+    approved: z.boolean().describe('Index the document (true) or discard it (false)'),
+    category: knowledgeCategorySchema.optional().describe('Corrected category'),
+    tags: z.array(z.string()).optional().describe('Corrected tags'),
+    reason: z.string().optional().describe('Why the document was rejected'),
+  }),
+  execute: async ({ inputData, resumeData, suspend, bail }) => {
+    const uncertain = !!inputData.classification?.needsReview;
+    if (!inputData.requireApproval && inputData.duplicates.length === 0 && !uncertain) {
+      return { ...inputData, approvedBy: 'auto' as const };
+    }
+
+    if (!resumeData) {
+      return suspend({
+        message: inputData.duplicates.length
+          ? `'${inputData.title}' looks like ${inputData.duplicates.length} indexed document(s). Approve to index it anyway, or reject it.`
+          : uncertain
+            ? `The category of '${inputData.title}' is a low-confidence guess (${inputData.category}). Approve it, correct it, or reject the document.`
+            : `Approve indexing '${inputData.title}' as ${inputData.category}, or reject it.`,
+        documentId: inputData.documentId,
+        title: inputData.title,
+        category: inputData.category,
+        tags: inputData.tags,
+        classification: inputData.classification,
+        chunkCount: inputData.chunks.length,
+        duplicates: inputData.duplicates,
+      });
+    }
+
+    if (!resumeData.approved) {
+      return bail({
+        status: 'rejected',
+        documentId: inputData.documentId,
+        title: inputData.title,
+        indexName: inputData.indexName,
+        category: inputData.category,
+        tags: inputData.tags,
+        duplicates: inputData.duplicates,
+        reason: resumeData.reason,
+      } satisfies z.infer<typeof ingestResultSchema>);
+    }
+
+    return {
+      ...inputData,
+      category: resumeData.category ?? inputData.category,
+      tags: resumeData.tags ?? inputData.tags,
+      approvedBy: 'reviewer' as const,
+    };
+  },
+});
+
+const embedChunks = createStep({
+  id: 'embed-chunks',
+  description: 'Builds the chunk metadata and embeds the chunks when the content changed',
+  inputSchema: approvedSchema,
+  outputSchema: embeddedSchema,
+  execute: async ({ inputData }) => {
+    const prepared = describeChunks(inputData.documentId, inputData, inputData.chunks);
+    const previous = await findStoredVersion(
+      vectorStore,
+      inputData.physicalIndexName,
+      inputData.documentId,
+      inputData.title,
+    );
+    const change = compareWithStored(previous, prepared);
+    const vectors = change === 'new' || change === 'content' ? await embedTexts(prepared.texts) : [];
+
+    return { ...inputData, ...prepared, vectors, previous };
+  },
+});
+
+const upsertChunks = createStep({
+  id: 'upsert-chunks',
+  description: 'Writes the chunks under their stable IDs, removing chunks of a previous longer version',
+  inputSchema: embeddedSchema,
+  outputSchema: ingestResultSchema,
+  execute: async ({ inputData }) => {
+    const { status, chunkCount } = await writeDocument(
+      vectorStore,
+      inputData.physicalIndexName,
+      inputData.documentId,
+      inputData,
+      inputData.previous,
+      inputData.vectors,
+    );
+
+    return {
+      status,
+      documentId: inputData.documentId,
+      title: inputData.title,
+      indexName: inputData.indexName,
+      category: inputData.category,
+      tags: inputData.tags,
+      chunkCount,
+      duplicates: inputData.duplicates,
+    };
+  },
+});
+
+const ingestDocumentWorkflow = createWorkflow({
+  id: 'ingest-document-workflow',
+  inputSchema: ingestInputSchema,
+  outputSchema: ingestResultSchema,
+  // Applies the schema defaults (index, threshold, approval) to API and agent input
+  options: { validateInputs: true },
+})
+  .then(normalizeDocument)
+  .then(splitIntoChunks)
+  .then(suggestClassification)
+  .then(findNearDuplicates)
+  .then(reviewDocument)
+  .then(embedChunks)
+  .then(upsertChunks);
+
+ingestDocumentWorkflow.commit();
+
+export { ingestDocumentWorkflow };
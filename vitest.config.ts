@@ -7,5 +7,10 @@ export default defineConfig({
     testTimeout: 30000,
     hookTimeout: 30000,
     setupFiles: ['dotenv/config'],
+    // Tests run offline: in-memory vector store and the local embedder
+    env: {
+      VECTOR_STORE_PROVIDER: 'memory',
+      EMBEDDING_PROVIDER: 'local',
+    },
   },
 });